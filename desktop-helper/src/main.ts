@@ -2,7 +2,15 @@ import { app, BrowserWindow, ipcMain } from 'electron';
 import path from 'path';
 import express from 'express';
 import cors from 'cors';
-import { SessionManager } from './sessions/SessionManager';
+import { ControlState, OWNER_CONTROLLER, RemoteInputEvent, parseRemoteInputEvent } from 'tldraw-browser-canvas-protocol';
+import { NavigationAction, SESSION_MODES, SessionManager, SessionMode } from './sessions/SessionManager';
+import { NavigationError, PageState, normalizeUrl } from './sessions/PageView';
+import { createLogger, requestLogger } from './logger';
+
+const log = createLogger('desktop');
+
+// Most events one POST /sessions/:nodeId/input may carry; the canvas batches per animation frame
+const MAX_INPUT_EVENTS = 200;
 
 // macOS Screen Capture permissions (must be before app.ready)
 app.commandLine.appendSwitch('enable-features', 'ScreenCaptureKit');
@@ -17,12 +25,14 @@ const httpApp = express();
 // CORS - allow all origins for testing
 httpApp.use(cors({
   origin: true,
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id'],
   credentials: false
 }));
 
 httpApp.use(express.json());
+httpApp.use(requestLogger);
 
 function createMainWindow() {
   // Create the main window (optional - could be tray-only)
@@ -68,25 +78,44 @@ app.on('window-all-closed', () => {
 function setupHttpServer() {
   // Simple test endpoint
   httpApp.get('/test', (req, res) => {
-    console.log('[HTTP] Test endpoint hit');
     res.json({ status: 'ok', message: 'Desktop Helper is running' });
   });
 
   // POST /create-session - Web app calls this to open a browser window
   httpApp.post('/create-session', async (req, res) => {
-    const { nodeId, ownerToken, title } = req.body;
+    const { nodeId, ownerToken, title, url, mode = 'visible', width, height, frameRate } = req.body;
 
     if (!nodeId) {
       return res.status(400).json({ error: 'nodeId required' });
     }
 
-    console.log(`[HTTP] Creating window for session: ${nodeId}`);
+    if (!SESSION_MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of ${SESSION_MODES.join(', ')}` });
+    }
+
+    for (const [name, value] of Object.entries({ width, height, frameRate })) {
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+        return res.status(400).json({ error: `${name} must be a positive number` });
+      }
+    }
+
+    if (url !== undefined) {
+      try {
+        normalizeUrl(String(url));
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+    }
+
+    res.locals.log.info('Creating window for session', { nodeId, mode });
 
     try {
+      // Without an owner token the window opens locally but isn't published
       const session = await sessionManager.createSession(
         nodeId,
-        ownerToken || 'local-test-token',
-        title || 'Browser Session'
+        ownerToken,
+        title || 'Browser Session',
+        { mode: mode as SessionMode, url, width, height, frameRate }
       );
       
       res.json({ 
@@ -95,7 +124,7 @@ function setupHttpServer() {
         message: 'Window created'
       });
     } catch (error) {
-      console.error('[HTTP] Failed to create session:', error);
+      res.locals.log.error('Failed to create session', { nodeId, err: error });
       res.status(500).json({ 
         error: 'Failed to create session',
         message: (error as Error).message 
@@ -103,7 +132,7 @@ function setupHttpServer() {
     }
   });
 
-  // GET /frame/:nodeId - Get latest frame as PNG
+  // GET /frame/:nodeId - Single PNG snapshot; live views use /stream/:nodeId
   httpApp.get('/frame/:nodeId', async (req, res) => {
     const { nodeId } = req.params;
     
@@ -122,11 +151,168 @@ function setupHttpServer() {
       res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
       res.send(frame);
     } catch (error) {
-      console.error('[HTTP] Failed to capture frame:', error);
+      res.locals.log.error('Failed to capture frame', { nodeId, err: error });
       res.status(500).json({ error: 'Failed to capture frame' });
     }
   });
 
+  // GET /stream/:nodeId - Live JPEG frames as multipart/x-mixed-replace, sent on repaint.
+  // Optional ?fps= and ?quality= (1-100) lower the rate and size for this client.
+  httpApp.get('/stream/:nodeId', (req, res) => {
+    const { nodeId } = req.params;
+    const options = {
+      fps: Number(req.query.fps) || undefined,
+      quality: Number(req.query.quality) || undefined,
+    };
+
+    if (!sessionManager.streamFrames(nodeId, res, options)) {
+      res.status(404).json({ error: 'Session not found' });
+    }
+  });
+
+  // GET /sessions/:nodeId - What the session's page is showing
+  httpApp.get('/sessions/:nodeId', (req, res) => {
+    const state = sessionManager.getPageState(req.params.nodeId);
+    if (!state) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(state);
+  });
+
+  // GET /sessions/:nodeId/events - Server-sent `page-state` events as the page navigates,
+  // loads or changes its title or favicon. The current state is sent first.
+  httpApp.get('/sessions/:nodeId/events', (req, res) => {
+    const { nodeId } = req.params;
+    const state = sessionManager.getPageState(nodeId);
+    if (!state) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const sendEvent = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    sendEvent('page-state', state);
+    sendEvent('control-state', sessionManager.getControlState(nodeId));
+
+    const onState = (id: string, state: PageState) => {
+      if (id === nodeId) sendEvent('page-state', state);
+    };
+    const onControl = (id: string, state: ControlState) => {
+      if (id === nodeId) sendEvent('control-state', state);
+    };
+    const onClosed = (id: string) => {
+      if (id === nodeId) res.end();
+    };
+    sessionManager.on('page-state', onState);
+    sessionManager.on('control-state', onControl);
+    sessionManager.on('session-closed', onClosed);
+    req.on('close', () => {
+      sessionManager.off('page-state', onState);
+      sessionManager.off('control-state', onControl);
+      sessionManager.off('session-closed', onClosed);
+    });
+  });
+
+  // POST /sessions/:nodeId/navigate - Load { url } in the session
+  httpApp.post('/sessions/:nodeId/navigate', (req, res) => {
+    const { nodeId } = req.params;
+    const { url } = req.body;
+
+    if (typeof url !== 'string' || !url.trim()) {
+      return res.status(400).json({ error: 'url required' });
+    }
+
+    try {
+      const state = sessionManager.navigate(nodeId, url);
+      if (!state) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      res.json(state);
+    } catch (error) {
+      if (error instanceof NavigationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  // POST /sessions/:nodeId/back|forward|reload|stop - Browser controls
+  const actions: NavigationAction[] = ['back', 'forward', 'reload', 'stop'];
+  for (const action of actions) {
+    httpApp.post(`/sessions/:nodeId/${action}`, (req, res) => {
+      try {
+        const state = sessionManager.runNavigation(req.params.nodeId, action);
+        if (!state) {
+          return res.status(404).json({ error: 'Session not found' });
+        }
+        res.json(state);
+      } catch (error) {
+        if (error instanceof NavigationError) {
+          return res.status(409).json({ error: error.message });
+        }
+        throw error;
+      }
+    });
+  }
+
+  // GET /sessions/:nodeId/control - Who is driving the session and who may
+  httpApp.get('/sessions/:nodeId/control', (req, res) => {
+    const state = sessionManager.getControlState(req.params.nodeId);
+    if (!state) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(state);
+  });
+
+  // POST /sessions/:nodeId/input - Inject the owner's { events } into the page
+  httpApp.post('/sessions/:nodeId/input', (req, res) => {
+    const { nodeId } = req.params;
+    const { events } = req.body;
+
+    if (!Array.isArray(events) || events.length === 0 || events.length > MAX_INPUT_EVENTS) {
+      return res.status(400).json({ error: `events must be an array of 1-${MAX_INPUT_EVENTS} input events` });
+    }
+    for (const event of events) {
+      const parsed = parseRemoteInputEvent(event);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
+      }
+    }
+
+    const result = sessionManager.sendInput(nodeId, OWNER_CONTROLLER, events as RemoteInputEvent[]);
+    if (result === 'not_found') {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    const state = sessionManager.getControlState(nodeId)!;
+    if (result) {
+      return res.status(409).json({ error: 'Someone else has control', code: result, holder: state.holder });
+    }
+    res.json(state);
+  });
+
+  // POST /sessions/:nodeId/control/release - The owner stops driving so a viewer can
+  httpApp.post('/sessions/:nodeId/control/release', (req, res) => {
+    const state = sessionManager.releaseControl(req.params.nodeId, OWNER_CONTROLLER);
+    if (!state) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(state);
+  });
+
+  // PUT|DELETE /sessions/:nodeId/control/grants/:peerId - Let a viewer drive, or stop letting it
+  for (const [method, granted] of [['put', true], ['delete', false]] as const) {
+    httpApp[method]('/sessions/:nodeId/control/grants/:peerId', (req, res) => {
+      const state = sessionManager.setControlGrant(req.params.nodeId, req.params.peerId, granted);
+      if (!state) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      res.json(state);
+    });
+  }
+
   // GET /health - Health check
   httpApp.get('/health', (req, res) => {
     res.json({ 
@@ -137,9 +323,7 @@ function setupHttpServer() {
 
   // Start listening
   httpApp.listen(3002, () => {
-    console.log('[DESKTOP] HTTP server listening on port 3002');
-    console.log('[DESKTOP] POST http://localhost:3002/create-session');
-    console.log('[DESKTOP] GET  http://localhost:3002/frame/:nodeId');
+    log.info('HTTP server listening', { port: 3002 });
   });
 }
 
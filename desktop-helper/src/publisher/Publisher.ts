@@ -0,0 +1,205 @@
+import { BrowserWindow, NativeImage, Rectangle, WebContents, ipcMain } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import type { ControlState, InputRejection, RemoteInputEvent, ServerMessage } from 'tldraw-browser-canvas-protocol';
+import { LogFields, LogLevel, Logger, createLogger } from '../logger';
+
+const SIGNALING_URL = process.env.SIGNALING_URL || 'ws://localhost:3001';
+const API_URL = process.env.API_URL || 'http://localhost:3001';
+// How often the publisher heartbeats; the server marks a node offline after 15s without one
+const HEARTBEAT_INTERVAL_MS = Number(process.env.HEARTBEAT_INTERVAL_MS) || 5_000;
+// JPEG quality of paints forwarded to the renderer; WebRTC re-encodes them anyway
+const PAINT_FORWARD_QUALITY = 90;
+
+const log = createLogger('publisher');
+
+// `window` captures the session window from the screen; `paint` streams the frames an
+// offscreen window paints, which the renderer draws onto a canvas
+export type CaptureSource = 'window' | 'paint';
+
+// Handed to the hidden renderer over `publisher:config`
+export interface PublisherConfig {
+  nodeId: string;
+  ownerToken: string;
+  signalingUrl: string;
+  apiUrl: string;
+  capture: CaptureSource;
+  // Media source id of the session window, for a chromeMediaSource: 'desktop' capture
+  sourceId: string;
+  // Paint capture only: the session's frame rate
+  frameRate: number;
+  heartbeatIntervalMs: number;
+}
+
+// Sent with every heartbeat so viewers can see what the session is showing
+export interface HeartbeatPayload {
+  title: string;
+  url: string;
+}
+
+interface PublisherOptions {
+  nodeId: string;
+  ownerToken: string;
+  // The window to capture and stream
+  source: BrowserWindow;
+  // The page shown in it: paints, title and URL come from here
+  contents: WebContents;
+  capture: CaptureSource;
+  // Server messages the session needs to act on, e.g. `revoke`
+  onSignal: (msg: ServerMessage) => void;
+  // Input a viewer sent over its data channel; returns why it was refused, if it was
+  onInput: (peerId: string, events: RemoteInputEvent[]) => InputRejection | 'not_found' | null;
+  // A viewer gave up control, or its data channel closed
+  onRelease: (peerId: string) => void;
+  getControlState: () => ControlState;
+}
+
+// Publishers by the id of their hidden renderer's webContents
+const publishers = new Map<number, Publisher>();
+
+// Streams a session window to the node's viewers. Capture, WebRTC and the signaling
+// socket live in a hidden renderer (src/publisher/renderer.ts), which needs the DOM's
+// getUserMedia and RTCPeerConnection; this side owns its lifetime and its log output.
+export class Publisher {
+  private window: BrowserWindow | null = null;
+  private log: Logger;
+  private onPaint = (event: Electron.Event, dirtyRect: Rectangle, image: NativeImage) => this.forwardPaint(image);
+  // Set by start(); read by the renderer on load
+  config: PublisherConfig | null = null;
+
+  constructor(private options: PublisherOptions) {
+    this.log = log.child({ nodeId: options.nodeId });
+  }
+
+  start(): void {
+    const { nodeId, source, contents } = this.options;
+
+    this.window = new BrowserWindow({
+      show: false,
+      webPreferences: {
+        // Local page only; it needs require() for ipcRenderer and the protocol package
+        nodeIntegration: true,
+        contextIsolation: false,
+        // Hidden windows are throttled by default, which would stall heartbeats and encoding
+        backgroundThrottling: false,
+      },
+    });
+
+    const contentsId = this.window.webContents.id;
+    publishers.set(contentsId, this);
+    this.window.on('closed', () => {
+      publishers.delete(contentsId);
+      this.window = null;
+    });
+
+    this.window.webContents.on('render-process-gone', (event, details) => {
+      this.log.error('Publisher renderer exited', { reason: details.reason });
+    });
+
+    this.config = {
+      nodeId,
+      ownerToken: this.options.ownerToken,
+      signalingUrl: SIGNALING_URL,
+      apiUrl: API_URL,
+      capture: this.options.capture,
+      sourceId: source.getMediaSourceId(),
+      frameRate: contents.getFrameRate(),
+      heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+    };
+
+    // getUserMedia needs a secure context, which file:// is and data: URLs aren't
+    const script = path.join(__dirname, 'renderer.js');
+    const tempPath = path.join(os.tmpdir(), `browser-publisher-${nodeId}.html`);
+    fs.writeFileSync(tempPath, `<!DOCTYPE html><meta charset="UTF-8"><script>require(${JSON.stringify(script)})</script>`);
+    this.window.loadFile(tempPath);
+
+    if (this.options.capture === 'paint') {
+      contents.on('paint', this.onPaint);
+      // Repaint once the renderer is listening so it starts with a full frame
+      this.window.webContents.once('did-finish-load', () => {
+        if (!contents.isDestroyed()) contents.invalidate();
+      });
+    }
+
+    this.log.info('Publisher started', { signalingUrl: SIGNALING_URL, capture: this.options.capture });
+  }
+
+  // Closing the renderer closes its socket and every peer connection with it
+  stop(): void {
+    if (!this.options.contents.isDestroyed()) {
+      this.options.contents.off('paint', this.onPaint);
+    }
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.destroy();
+      this.log.info('Publisher stopped');
+    }
+    this.window = null;
+  }
+
+  private forwardPaint(image: NativeImage) {
+    if (!this.window || this.window.isDestroyed() || image.isEmpty()) return;
+    this.window.webContents.send('publisher:frame', image.toJPEG(PAINT_FORWARD_QUALITY));
+  }
+
+  heartbeatPayload(): HeartbeatPayload {
+    const { contents } = this.options;
+    if (contents.isDestroyed()) return { title: '', url: '' };
+    return { title: contents.getTitle(), url: contents.getURL() };
+  }
+
+  // Passed on to every viewer's data channel
+  setControlState(state: ControlState): void {
+    if (!this.window || this.window.isDestroyed()) return;
+    this.window.webContents.send('publisher:control', state);
+  }
+
+  controlState(): ControlState {
+    return this.options.getControlState();
+  }
+
+  handleInput(peerId: string, events: RemoteInputEvent[]): InputRejection | 'not_found' | null {
+    return this.options.onInput(peerId, events);
+  }
+
+  releaseControl(peerId: string): void {
+    this.options.onRelease(peerId);
+  }
+
+  handleSignal(msg: ServerMessage): void {
+    this.options.onSignal(msg);
+  }
+
+  write(level: LogLevel, msg: string, fields?: LogFields): void {
+    this.log[level](msg, fields);
+  }
+}
+
+ipcMain.handle('publisher:config', (event) => {
+  return publishers.get(event.sender.id)?.config ?? null;
+});
+
+ipcMain.handle('publisher:heartbeat-payload', (event) => {
+  return publishers.get(event.sender.id)?.heartbeatPayload() ?? null;
+});
+
+ipcMain.handle('publisher:control-state', (event) => {
+  return publishers.get(event.sender.id)?.controlState() ?? null;
+});
+
+ipcMain.handle('publisher:input', (event, peerId: string, events: RemoteInputEvent[]) => {
+  return publishers.get(event.sender.id)?.handleInput(peerId, events) ?? 'not_found';
+});
+
+ipcMain.on('publisher:release-control', (event, peerId: string) => {
+  publishers.get(event.sender.id)?.releaseControl(peerId);
+});
+
+ipcMain.on('publisher:signal', (event, msg: ServerMessage) => {
+  publishers.get(event.sender.id)?.handleSignal(msg);
+});
+
+// The renderer's console isn't captured; its log lines come through here with the node's fields
+ipcMain.on('publisher:log', (event, level: LogLevel, msg: string, fields?: LogFields) => {
+  publishers.get(event.sender.id)?.write(level, msg, fields);
+});
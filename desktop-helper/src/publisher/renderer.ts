@@ -0,0 +1,447 @@
+import { ipcRenderer } from 'electron';
+import {
+  ClientMessage,
+  CloseCode,
+  ControlState,
+  InputChannelMessage,
+  InputRejection,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  SessionDescription,
+  parseInputChannelMessage,
+  parseServerMessage,
+} from 'tldraw-browser-canvas-protocol';
+import type { LogFields, LogLevel } from '../logger';
+import type { HeartbeatPayload, PublisherConfig } from './Publisher';
+
+// Runs in the publisher's hidden window: captures the session window, publishes the node,
+// answers each viewer's offer on its own peer connection and heartbeats while connected.
+// Viewers offer; we answer. We only offer ourselves to restart ICE after a viewer resumes.
+// Viewers that open an `input` data channel can drive the page if the owner lets them.
+
+// Renew the owner token this long before it expires
+const REFRESH_MARGIN_MS = 60_000;
+// Retry a failed refresh after this long, while the current token is still valid
+const REFRESH_RETRY_MS = 10_000;
+// Reconnect delay after an unexpected drop; doubles with every failed attempt
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+// Used when the ICE server fetch fails
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+// Closes after which reconnecting can't succeed
+const FINAL_CLOSE_CODES: number[] = [CloseCode.Revoked, CloseCode.UnsupportedProtocol];
+
+let config: PublisherConfig;
+// Current owner token; replaced on refresh
+let token: string;
+let stream: MediaStream;
+let ws: WebSocket | null = null;
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+// Delay the server suggested in `server-restarting`; the next close reconnects after it
+let restartDelay: number | null = null;
+
+// One peer connection per viewer, by peerId. They outlive signaling reconnects.
+const peers = new Map<string, RTCPeerConnection>();
+// Signaling for each viewer is applied strictly in order, e.g. ICE only after its offer
+const peerQueues = new Map<string, Promise<void>>();
+// Each viewer's `input` data channel, by peerId
+const inputChannels = new Map<string, RTCDataChannel>();
+// Latest from the session, sent to every input channel when it changes
+let controlState: ControlState | null = null;
+
+function log(level: LogLevel, msg: string, fields?: LogFields) {
+  ipcRenderer.send('publisher:log', level, msg, fields);
+}
+
+function describe(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function send(msg: ClientMessage) {
+  if (ws?.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(msg));
+  }
+}
+
+function capture(): Promise<MediaStream> {
+  return config.capture === 'paint' ? Promise.resolve(capturePaints()) : captureWindow(config.sourceId);
+}
+
+// Electron's Chromium takes a desktopCapturer source id in place of the getDisplayMedia picker
+function captureWindow(sourceId: string): Promise<MediaStream> {
+  const video = {
+    mandatory: {
+      chromeMediaSource: 'desktop',
+      chromeMediaSourceId: sourceId,
+      maxWidth: 1920,
+      maxHeight: 1080,
+      maxFrameRate: 30,
+    },
+  };
+  return navigator.mediaDevices.getUserMedia({ audio: false, video: video as unknown as MediaTrackConstraints });
+}
+
+// Offscreen sessions have nothing on screen to capture; the main process forwards each
+// paint as a JPEG, which is drawn onto a canvas whose stream the viewers receive
+function capturePaints(): MediaStream {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+
+  ipcRenderer.on('publisher:frame', async (event, jpeg: Uint8Array) => {
+    try {
+      const bitmap = await createImageBitmap(new Blob([new Uint8Array(jpeg)], { type: 'image/jpeg' }));
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+      }
+      context.drawImage(bitmap, 0, 0);
+      bitmap.close();
+    } catch (err) {
+      log('debug', 'Dropped undecodable frame', { error: describe(err) });
+    }
+  });
+
+  return canvas.captureStream(config.frameRate);
+}
+
+function connect() {
+  const socket = new WebSocket(`${config.signalingUrl}/signal`);
+  ws = socket;
+
+  socket.onopen = () => {
+    send({ type: 'publish', nodeId: config.nodeId, ownerToken: token, protocolVersion: PROTOCOL_VERSION });
+  };
+
+  socket.onmessage = (event) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch (err) {
+      log('warn', 'Ignoring unparseable signaling message', { error: describe(err) });
+      return;
+    }
+
+    const parsed = parseServerMessage(data);
+    if (!parsed.ok) {
+      log('warn', 'Ignoring invalid signaling message', { error: parsed.error });
+      return;
+    }
+    handleMessage(parsed.message);
+  };
+
+  socket.onclose = (event) => {
+    stopHeartbeats();
+    if (ws !== socket) return;
+    ws = null;
+
+    const delay = restartDelay;
+    restartDelay = null;
+
+    if (FINAL_CLOSE_CODES.includes(event.code)) {
+      log('info', 'Signaling closed', { code: event.code, reason: event.reason });
+      closePeers();
+      return;
+    }
+
+    // Peer connections stay up meanwhile; resuming viewers get an ICE restart
+    const reconnectInMs = delay ?? Math.min(RECONNECT_BASE_MS * 2 ** reconnectAttempts, RECONNECT_MAX_MS);
+    reconnectAttempts++;
+    log('warn', 'Signaling connection lost, reconnecting', { code: event.code, reconnectInMs });
+    setTimeout(connect, reconnectInMs);
+  };
+}
+
+function handleMessage(msg: ServerMessage) {
+  switch (msg.type) {
+    case 'connected':
+      reconnectAttempts = 0;
+      log('info', 'Publishing', { peerId: msg.peerId });
+      startHeartbeats();
+      break;
+    case 'offer': {
+      const peerId = msg.from;
+      if (peerId) enqueue(peerId, () => handleOffer(peerId, msg.sdp));
+      break;
+    }
+    case 'answer': {
+      const peerId = msg.from;
+      if (peerId) enqueue(peerId, () => handleAnswer(peerId, msg.sdp));
+      break;
+    }
+    case 'ice': {
+      const peerId = msg.from;
+      if (peerId) enqueue(peerId, () => handleIce(peerId, msg.candidate));
+      break;
+    }
+    case 'leave':
+      closePeer(msg.peerId);
+      break;
+    case 'viewer-reconnected': {
+      // Its network path likely changed; renegotiation kicks off from onnegotiationneeded
+      const pc = peers.get(msg.peerId);
+      if (pc) {
+        log('info', 'Viewer resumed, restarting ICE', { peerId: msg.peerId });
+        pc.restartIce();
+      }
+      break;
+    }
+    case 'viewers':
+      log('debug', 'Viewers changed', { viewers: msg.viewers.length });
+      break;
+    case 'revoke':
+      // The session shuts this window down; the server closes the socket with 4001
+      log('info', 'Node revoked by owner');
+      closePeers();
+      ipcRenderer.send('publisher:signal', msg);
+      break;
+    case 'server-restarting':
+      log('info', 'Signaling server restarting', { reconnectInMs: msg.reconnectInMs });
+      restartDelay = msg.reconnectInMs;
+      break;
+    case 'error':
+      log('warn', 'Signaling error', { code: msg.code, message: msg.message });
+      break;
+  }
+}
+
+function enqueue(peerId: string, task: () => Promise<void>) {
+  const next = (peerQueues.get(peerId) || Promise.resolve())
+    .then(task)
+    .catch((err) => {
+      log('error', 'Peer signaling failed', { peerId, error: describe(err) });
+    });
+  peerQueues.set(peerId, next);
+}
+
+async function fetchIceServers(): Promise<RTCIceServer[]> {
+  try {
+    const res = await fetch(`${config.apiUrl}/nodes/${config.nodeId}/ice-servers`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const { iceServers } = await res.json();
+    return iceServers;
+  } catch (err) {
+    log('warn', 'Failed to fetch ICE servers, using STUN only', { error: describe(err) });
+    return FALLBACK_ICE_SERVERS;
+  }
+}
+
+async function createPeer(peerId: string): Promise<RTCPeerConnection> {
+  const pc = new RTCPeerConnection({ iceServers: await fetchIceServers() });
+  peers.set(peerId, pc);
+
+  pc.onicecandidate = (event) => {
+    if (event.candidate) {
+      send({ type: 'ice', nodeId: config.nodeId, to: peerId, candidate: event.candidate.toJSON() });
+    }
+  };
+
+  pc.onconnectionstatechange = () => {
+    log('info', 'Peer connection state changed', { peerId, state: pc.connectionState });
+  };
+
+  pc.ondatachannel = (event) => {
+    if (event.channel.label === 'input') {
+      attachInputChannel(peerId, event.channel);
+    } else {
+      event.channel.close();
+    }
+  };
+
+  // Fires after restartIce(), or if the viewer's offer had no video section to answer with
+  pc.onnegotiationneeded = () => {
+    enqueue(peerId, async () => {
+      if (pc.signalingState !== 'stable') return;
+      await pc.setLocalDescription();
+      send({ type: 'offer', nodeId: config.nodeId, to: peerId, sdp: pc.localDescription!.toJSON() });
+    });
+  };
+
+  return pc;
+}
+
+async function handleOffer(peerId: string, sdp: SessionDescription) {
+  const pc = peers.get(peerId) || (await createPeer(peerId));
+
+  // We're the polite side: a viewer's offer wins over an ICE restart offer of ours
+  if (pc.signalingState !== 'stable') {
+    await pc.setLocalDescription({ type: 'rollback' });
+  }
+  await pc.setRemoteDescription(sdp);
+
+  // Added after the offer so the tracks take the viewer's receive-only video section
+  if (pc.getSenders().length === 0) {
+    for (const track of stream.getTracks()) {
+      pc.addTrack(track, stream);
+    }
+  }
+
+  await pc.setLocalDescription(await pc.createAnswer());
+  send({ type: 'answer', nodeId: config.nodeId, to: peerId, sdp: pc.localDescription!.toJSON() });
+}
+
+async function handleAnswer(peerId: string, sdp: SessionDescription) {
+  const pc = peers.get(peerId);
+  if (!pc || pc.signalingState !== 'have-local-offer') return;
+  await pc.setRemoteDescription(sdp);
+}
+
+async function handleIce(peerId: string, candidate: RTCIceCandidateInit) {
+  const pc = peers.get(peerId);
+  if (!pc) return;
+  try {
+    await pc.addIceCandidate(candidate);
+  } catch (err) {
+    log('debug', 'Ignoring ICE candidate', { peerId, error: describe(err) });
+  }
+}
+
+function sendOnChannel(channel: RTCDataChannel, msg: InputChannelMessage) {
+  if (channel.readyState === 'open') {
+    channel.send(JSON.stringify(msg));
+  }
+}
+
+// The main process decides whether a viewer may drive the page; this only relays
+function attachInputChannel(peerId: string, channel: RTCDataChannel) {
+  inputChannels.get(peerId)?.close();
+  inputChannels.set(peerId, channel);
+
+  channel.onopen = () => {
+    if (controlState) sendOnChannel(channel, { type: 'control', state: controlState });
+  };
+
+  channel.onmessage = async (event) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    const parsed = parseInputChannelMessage(data);
+    if (!parsed.ok) {
+      log('debug', 'Ignoring invalid input message', { peerId, error: parsed.error });
+      return;
+    }
+
+    const msg = parsed.message;
+    if (msg.type === 'input') {
+      const result: InputRejection | 'not_found' | null = await ipcRenderer.invoke('publisher:input', peerId, msg.events);
+      if (result === 'not_granted' || result === 'locked') {
+        sendOnChannel(channel, { type: 'input-rejected', reason: result });
+      }
+    } else if (msg.type === 'release') {
+      ipcRenderer.send('publisher:release-control', peerId);
+    }
+  };
+
+  // A viewer that drops mid-drag shouldn't keep everyone else locked out until it idles
+  channel.onclose = () => {
+    if (inputChannels.get(peerId) === channel) inputChannels.delete(peerId);
+    ipcRenderer.send('publisher:release-control', peerId);
+  };
+}
+
+ipcRenderer.on('publisher:control', (event, state: ControlState) => {
+  controlState = state;
+  for (const channel of inputChannels.values()) {
+    sendOnChannel(channel, { type: 'control', state });
+  }
+});
+
+function closePeer(peerId: string) {
+  const pc = peers.get(peerId);
+  if (!pc) return;
+
+  pc.close();
+  peers.delete(peerId);
+  peerQueues.delete(peerId);
+  log('info', 'Viewer left', { peerId });
+}
+
+function closePeers() {
+  for (const peerId of Array.from(peers.keys())) {
+    closePeer(peerId);
+  }
+}
+
+// sentAt lets the server measure publisher -> server latency
+function startHeartbeats() {
+  stopHeartbeats();
+
+  const beat = async () => {
+    const payload: HeartbeatPayload | null = await ipcRenderer.invoke('publisher:heartbeat-payload');
+    send({ type: 'heartbeat', nodeId: config.nodeId, sentAt: Date.now(), payload: payload ?? undefined });
+  };
+  beat();
+  heartbeatTimer = setInterval(beat, config.heartbeatIntervalMs);
+}
+
+function stopHeartbeats() {
+  if (heartbeatTimer) clearInterval(heartbeatTimer);
+  heartbeatTimer = null;
+}
+
+// Expiry of a JWT in ms since epoch; decoding is unverified, only used for scheduling
+function tokenExpiresAt(jwt: string): number | null {
+  try {
+    const payload = jwt.split('.')[1];
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))).exp * 1000;
+  } catch {
+    return null;
+  }
+}
+
+// Owner tokens last 15 minutes; swap ours for a fresh one before then and hand it to the socket
+function scheduleRefresh(delay?: number) {
+  const expiresAt = tokenExpiresAt(token);
+  if (!expiresAt) return;
+
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(refreshOwnerToken, delay ?? Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS));
+}
+
+async function refreshOwnerToken() {
+  try {
+    const res = await fetch(`${config.apiUrl}/nodes/${config.nodeId}/refresh`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    ({ token } = await res.json());
+    send({ type: 'reauth', token });
+    scheduleRefresh();
+  } catch (err) {
+    log('error', 'Owner token refresh failed', { error: describe(err) });
+    const expiresAt = tokenExpiresAt(token);
+    if (expiresAt && expiresAt > Date.now() + REFRESH_RETRY_MS) {
+      scheduleRefresh(REFRESH_RETRY_MS);
+    }
+  }
+}
+
+async function start() {
+  const received: PublisherConfig | null = await ipcRenderer.invoke('publisher:config');
+  if (!received) return;
+  config = received;
+  token = config.ownerToken;
+  controlState = await ipcRenderer.invoke('publisher:control-state');
+
+  try {
+    stream = await capture();
+  } catch (err) {
+    log('error', 'Window capture failed; not publishing', { error: describe(err) });
+    return;
+  }
+
+  log('info', 'Capturing session window', { capture: config.capture });
+  connect();
+  scheduleRefresh();
+}
+
+start();
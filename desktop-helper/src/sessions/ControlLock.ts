@@ -0,0 +1,84 @@
+import { OWNER_CONTROLLER } from 'tldraw-browser-canvas-protocol';
+import type { InputRejection } from 'tldraw-browser-canvas-protocol';
+
+// Control passes to the next sender once the holder has sent nothing for this long
+const CONTROL_IDLE_MS = Number(process.env.CONTROL_IDLE_MS) || 5_000;
+
+// Decides who may drive a session: the owner always, viewers once granted, and only one
+// of them at a time. Whoever sends input takes control if it's free and keeps it until
+// they release it or go idle, so two people can't fight over the cursor.
+export class ControlLock {
+  private holder: string | null = null;
+  private lastInputAt = 0;
+  private grants = new Set<string>();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Called whenever the holder or the grants change
+  constructor(private onChange: () => void) {}
+
+  get state(): { holder: string | null; grants: string[] } {
+    return { holder: this.holder, grants: Array.from(this.grants) };
+  }
+
+  // Take or keep control for `controller`, or say why it can't have it
+  acquire(controller: string): InputRejection | null {
+    if (controller !== OWNER_CONTROLLER && !this.grants.has(controller)) return 'not_granted';
+    if (this.holder !== null && this.holder !== controller) return 'locked';
+
+    this.lastInputAt = Date.now();
+    if (this.holder !== controller) {
+      this.holder = controller;
+      this.scheduleIdle(CONTROL_IDLE_MS);
+      this.onChange();
+    }
+    return null;
+  }
+
+  // Returns false if `controller` didn't hold control
+  release(controller: string): boolean {
+    if (this.holder !== controller) return false;
+    this.setHolder(null);
+    return true;
+  }
+
+  grant(peerId: string): void {
+    if (this.grants.has(peerId)) return;
+    this.grants.add(peerId);
+    this.onChange();
+  }
+
+  // Takes control away too if the viewer has it
+  revoke(peerId: string): void {
+    if (!this.grants.delete(peerId)) return;
+    if (this.holder === peerId) {
+      this.setHolder(null);
+    } else {
+      this.onChange();
+    }
+  }
+
+  dispose(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+
+  private setHolder(holder: string | null) {
+    this.dispose();
+    this.holder = holder;
+    this.onChange();
+  }
+
+  // Checked lazily rather than rescheduled on every mouse move
+  private scheduleIdle(delay: number) {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      const idleFor = Date.now() - this.lastInputAt;
+      if (idleFor >= CONTROL_IDLE_MS) {
+        this.setHolder(null);
+      } else {
+        this.scheduleIdle(CONTROL_IDLE_MS - idleFor);
+      }
+    }, delay);
+  }
+}
@@ -0,0 +1,170 @@
+import { NativeImage, Rectangle, WebContents } from 'electron';
+import { ServerResponse } from 'http';
+import { createLogger } from '../logger';
+
+// Defaults for GET /stream/:nodeId; clients can ask for less with ?fps= and ?quality=
+const STREAM_FPS = Number(process.env.STREAM_FPS) || 15;
+const STREAM_JPEG_QUALITY = Number(process.env.STREAM_JPEG_QUALITY) || 70;
+const MAX_STREAM_FPS = 60;
+
+const BOUNDARY = 'frame';
+
+const log = createLogger('stream');
+
+export interface StreamOptions {
+  fps?: number;
+  quality?: number;
+}
+
+interface Subscriber {
+  res: ServerResponse;
+  intervalMs: number;
+  quality: number;
+  lastSentAt: number;
+  // Frame number last written to this client
+  sentFrame: number;
+  // Set while the socket buffer is full; frames are skipped until it drains
+  blocked: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+// Pushes a session's frames to `multipart/x-mixed-replace` JPEG clients. Frames come from
+// repaints, not polling: `paint` for offscreen webContents, a frame subscription otherwise,
+// so an idle page costs nothing. Each client gets at most its fps; the newest frame wins,
+// and the last one is always delivered once the page settles.
+export class FrameStream {
+  private subscribers = new Set<Subscriber>();
+  private image: NativeImage | null = null;
+  // Bumped on every repaint; JPEGs are cached per frame and quality
+  private frame = 0;
+  private encoded = new Map<number, Buffer>();
+  private onPaint = (event: Electron.Event, dirtyRect: Rectangle, image: NativeImage) => this.setFrame(image);
+
+  constructor(private nodeId: string, private contents: WebContents) {}
+
+  subscribe(res: ServerResponse, options: StreamOptions = {}): void {
+    const subscriber: Subscriber = {
+      res,
+      intervalMs: 1000 / clamp(options.fps, 1, MAX_STREAM_FPS, STREAM_FPS),
+      quality: Math.round(clamp(options.quality, 1, 100, STREAM_JPEG_QUALITY)),
+      lastSentAt: 0,
+      sentFrame: 0,
+      blocked: false,
+      timer: null,
+    };
+
+    res.writeHead(200, {
+      'Content-Type': `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      Pragma: 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.on('drain', () => {
+      subscriber.blocked = false;
+      this.schedule(subscriber);
+    });
+    res.on('close', () => this.unsubscribe(subscriber));
+
+    this.subscribers.add(subscriber);
+    if (this.subscribers.size === 1) this.start();
+    this.schedule(subscriber);
+
+    log.info('Stream client connected', { nodeId: this.nodeId, clients: this.subscribers.size });
+  }
+
+  // Ends every client's response, e.g. when the session closes
+  close(): void {
+    for (const subscriber of Array.from(this.subscribers)) {
+      subscriber.res.end();
+      this.unsubscribe(subscriber);
+    }
+  }
+
+  private unsubscribe(subscriber: Subscriber) {
+    if (!this.subscribers.delete(subscriber)) return;
+
+    if (subscriber.timer) clearTimeout(subscriber.timer);
+    if (this.subscribers.size === 0) this.stop();
+    log.info('Stream client disconnected', { nodeId: this.nodeId, clients: this.subscribers.size });
+  }
+
+  private start() {
+    if (this.contents.isDestroyed()) return;
+
+    if (this.contents.isOffscreen()) {
+      this.contents.on('paint', this.onPaint);
+      // Offscreen contents only paint on change; ask for one so new clients get a first frame
+      this.contents.invalidate();
+    } else {
+      this.contents.beginFrameSubscription(false, (image) => this.setFrame(image));
+      // Visible windows may sit idle for a while; seed the stream with what's on screen now
+      this.contents.capturePage()
+        .then((image) => {
+          if (this.frame === 0) this.setFrame(image);
+        })
+        .catch((err) => {
+          log.warn('Initial frame capture failed', { nodeId: this.nodeId, err });
+        });
+    }
+  }
+
+  private stop() {
+    this.image = null;
+    this.frame = 0;
+    this.encoded.clear();
+    if (this.contents.isDestroyed()) return;
+
+    if (this.contents.isOffscreen()) {
+      this.contents.off('paint', this.onPaint);
+    } else {
+      this.contents.endFrameSubscription();
+    }
+  }
+
+  private setFrame(image: NativeImage) {
+    if (image.isEmpty()) return;
+
+    this.image = image;
+    this.frame++;
+    this.encoded.clear();
+    for (const subscriber of this.subscribers) {
+      this.schedule(subscriber);
+    }
+  }
+
+  // Send the newest frame now if the client's interval allows, otherwise once it does
+  private schedule(subscriber: Subscriber) {
+    if (subscriber.timer || subscriber.blocked || !this.image || subscriber.sentFrame === this.frame) return;
+
+    const wait = subscriber.lastSentAt + subscriber.intervalMs - Date.now();
+    if (wait > 0) {
+      subscriber.timer = setTimeout(() => {
+        subscriber.timer = null;
+        this.schedule(subscriber);
+      }, wait);
+      return;
+    }
+
+    this.send(subscriber);
+  }
+
+  private send(subscriber: Subscriber) {
+    let jpeg = this.encoded.get(subscriber.quality);
+    if (!jpeg) {
+      jpeg = this.image!.toJPEG(subscriber.quality);
+      this.encoded.set(subscriber.quality, jpeg);
+    }
+
+    const { res } = subscriber;
+    res.write(`--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${jpeg.length}\r\n\r\n`);
+    res.write(jpeg);
+    subscriber.blocked = !res.write('\r\n');
+    subscriber.lastSentAt = Date.now();
+    subscriber.sentFrame = this.frame;
+  }
+}
@@ -0,0 +1,161 @@
+import { BrowserView, BrowserWindow, WebContents } from 'electron';
+import { createLogger } from '../logger';
+
+const log = createLogger('session');
+
+// What the session is showing, as reported by GET /sessions/:nodeId and its event stream
+export interface PageState {
+  url: string;
+  title: string;
+  // First favicon the page declared, if any
+  favicon: string | null;
+  loading: boolean;
+  canGoBack: boolean;
+  canGoForward: boolean;
+}
+
+export class NavigationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NavigationError';
+  }
+}
+
+// Accepts what people type in a URL bar: bare hosts get https://. Only web pages are
+// allowed; file:, javascript: and friends would reach into the host machine.
+export function normalizeUrl(input: string): string {
+  const trimmed = input.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new NavigationError('Invalid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new NavigationError('Only http and https URLs are allowed');
+  }
+  return url.toString();
+}
+
+// The page a session shows, in its own view filling the session window, so sites that
+// refuse to be framed load normally and their real URL can be read back.
+// Electron 28 calls this BrowserView; it became WebContentsView in Electron 30.
+export class PageView {
+  readonly view: BrowserView;
+  private favicon: string | null = null;
+
+  constructor(
+    private nodeId: string,
+    window: BrowserWindow,
+    options: { offscreen: boolean; width: number; height: number },
+    private onChange: (state: PageState) => void
+  ) {
+    this.view = new BrowserView({
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        sandbox: true,
+        webSecurity: true,
+        offscreen: options.offscreen,
+      },
+    });
+    window.setBrowserView(this.view);
+
+    const { width, height } = options.offscreen ? options : window.getContentBounds();
+    this.view.setBounds({ x: 0, y: 0, width, height });
+    this.view.setAutoResize({ width: true, height: true });
+
+    this.watch(this.contents);
+  }
+
+  get contents(): WebContents {
+    return this.view.webContents;
+  }
+
+  // Viewport size in CSS pixels, the space remote input coordinates are in
+  getSize(): { width: number; height: number } {
+    const { width, height } = this.view.getBounds();
+    return { width, height };
+  }
+
+  getState(): PageState {
+    const { contents } = this;
+    return {
+      url: contents.getURL(),
+      title: contents.getTitle(),
+      favicon: this.favicon,
+      loading: contents.isLoading(),
+      canGoBack: contents.canGoBack(),
+      canGoForward: contents.canGoForward(),
+    };
+  }
+
+  navigate(input: string): void {
+    const url = normalizeUrl(input);
+    // Failed loads surface as did-fail-load; the caller gets the state once it starts
+    this.contents.loadURL(url).catch(() => {});
+  }
+
+  back(): void {
+    if (!this.contents.canGoBack()) throw new NavigationError('Nothing to go back to');
+    this.contents.goBack();
+  }
+
+  forward(): void {
+    if (!this.contents.canGoForward()) throw new NavigationError('Nothing to go forward to');
+    this.contents.goForward();
+  }
+
+  reload(): void {
+    this.contents.reload();
+  }
+
+  stop(): void {
+    this.contents.stop();
+  }
+
+  destroy(): void {
+    // BrowserView has no destroy(); closing its contents frees the renderer
+    if (!this.contents.isDestroyed()) {
+      this.contents.close();
+    }
+  }
+
+  private watch(contents: WebContents) {
+    const changed = () => {
+      if (!contents.isDestroyed()) this.onChange(this.getState());
+    };
+
+    contents.on('did-start-loading', changed);
+    contents.on('did-stop-loading', changed);
+    contents.on('page-title-updated', changed);
+    contents.on('did-navigate', () => {
+      // A new document starts without the old one's icon
+      this.favicon = null;
+      changed();
+    });
+    contents.on('did-navigate-in-page', changed);
+    contents.on('page-favicon-updated', (event, favicons) => {
+      this.favicon = favicons[0] || null;
+      changed();
+    });
+    contents.on('did-fail-load', (event, errorCode, errorDescription, validatedURL, isMainFrame) => {
+      // -3 is ERR_ABORTED: a navigation replaced by another or stopped on purpose
+      if (isMainFrame && errorCode !== -3) {
+        log.warn('Page failed to load', { nodeId: this.nodeId, url: validatedURL, errorCode, errorDescription });
+      }
+    });
+
+    // Popups would open as windows on the host; show them in the session instead
+    contents.setWindowOpenHandler(({ url }) => {
+      try {
+        this.navigate(url);
+      } catch (err) {
+        log.warn('Blocked popup', { nodeId: this.nodeId, url, err });
+      }
+      return { action: 'deny' };
+    });
+  }
+}
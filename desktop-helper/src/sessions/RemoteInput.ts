@@ -0,0 +1,95 @@
+import { WebContents } from 'electron';
+import type { Modifier, MouseButton, RemoteInputEvent } from 'tldraw-browser-canvas-protocol';
+
+// KeyboardEvent.key values whose Electron keyCode is spelled differently
+const KEY_CODES: Record<string, string> = {
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ' ': 'Space',
+};
+
+// Injects remote input into a session's page with sendInputEvent, translating from the
+// DOM's conventions to Chromium's
+export class InputInjector {
+  // Buttons held down, so moves in between become drags
+  private buttons = new Set<MouseButton>();
+  private position = { x: 0, y: 0 };
+
+  constructor(private contents: WebContents) {}
+
+  send(event: RemoteInputEvent): void {
+    if (this.contents.isDestroyed()) return;
+
+    const modifiers: Modifier[] = event.modifiers || [];
+    if ('x' in event) {
+      this.position = { x: Math.round(event.x), y: Math.round(event.y) };
+    }
+    const { x, y } = this.position;
+
+    switch (event.type) {
+      case 'mouseDown':
+      case 'mouseUp':
+        if (event.type === 'mouseDown') {
+          this.buttons.add(event.button);
+        } else {
+          this.buttons.delete(event.button);
+        }
+        this.contents.sendInputEvent({
+          type: event.type,
+          x,
+          y,
+          button: event.button,
+          clickCount: event.clickCount,
+          modifiers,
+        });
+        break;
+      case 'mouseMove':
+        this.contents.sendInputEvent({
+          type: 'mouseMove',
+          x,
+          y,
+          modifiers: [...modifiers, ...Array.from(this.buttons, (button) => `${button}ButtonDown` as const)],
+        });
+        break;
+      case 'mouseWheel':
+        // Chromium's wheel deltas point the opposite way to the DOM's
+        this.contents.sendInputEvent({
+          type: 'mouseWheel',
+          x,
+          y,
+          deltaX: -event.deltaX,
+          deltaY: -event.deltaY,
+          canScroll: true,
+          modifiers,
+        });
+        break;
+      case 'keyDown':
+        this.contents.sendInputEvent({ type: 'keyDown', keyCode: KEY_CODES[event.key] || event.key, modifiers });
+        // keyDown alone doesn't type anything; printable keys need a char event too
+        if (isPrintable(event.key, event.modifiers)) {
+          this.contents.sendInputEvent({ type: 'char', keyCode: event.key, modifiers });
+        }
+        break;
+      case 'keyUp':
+        this.contents.sendInputEvent({ type: 'keyUp', keyCode: KEY_CODES[event.key] || event.key, modifiers });
+        break;
+    }
+  }
+
+  // Let go of any buttons the last controller left held, so control never changes mid-drag
+  releaseButtons(): void {
+    if (this.contents.isDestroyed()) return;
+    const { x, y } = this.position;
+    for (const button of this.buttons) {
+      this.contents.sendInputEvent({ type: 'mouseUp', x, y, button, clickCount: 1 });
+    }
+    this.buttons.clear();
+  }
+}
+
+// Shortcuts like Ctrl+C are keystrokes, not text
+function isPrintable(key: string, modifiers: Modifier[] = []): boolean {
+  return Array.from(key).length === 1 && !modifiers.includes('control') && !modifiers.includes('meta');
+}
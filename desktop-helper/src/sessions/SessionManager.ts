@@ -1,27 +1,98 @@
-import { BrowserWindow } from 'electron';
-import * as path from 'path';
-import * as fs from 'fs';
-import * as os from 'os';
+import { BrowserWindow, NativeImage } from 'electron';
+import type { ControlState, InputRejection, RemoteInputEvent, ServerMessage } from 'tldraw-browser-canvas-protocol';
+import { EventEmitter } from 'events';
+import { ServerResponse } from 'http';
+import { createLogger } from '../logger';
+import { Publisher } from '../publisher/Publisher';
+import { ControlLock } from './ControlLock';
+import { FrameStream, StreamOptions } from './FrameStream';
+import { PageState, PageView, normalizeUrl } from './PageView';
+import { InputInjector } from './RemoteInput';
+
+const log = createLogger('session');
+
+// Offscreen sessions render at this size and frame rate unless /create-session says otherwise
+const SESSION_WIDTH = Number(process.env.SESSION_WIDTH) || 1280;
+const SESSION_HEIGHT = Number(process.env.SESSION_HEIGHT) || 720;
+const OFFSCREEN_FRAME_RATE = Number(process.env.OFFSCREEN_FRAME_RATE) || 30;
+const MAX_SESSION_SIZE = 3840;
+// Electron caps offscreen rendering at 240fps
+const MAX_FRAME_RATE = 240;
+// First page a session shows when /create-session doesn't name one
+const DEFAULT_URL = 'https://example.com';
+
+// `visible` opens a normal window on the host; `offscreen` renders without one
+export const SESSION_MODES = ['visible', 'offscreen'] as const;
+export type SessionMode = typeof SESSION_MODES[number];
+
+export interface SessionOptions {
+  mode?: SessionMode;
+  // First page to load
+  url?: string;
+  width?: number;
+  height?: number;
+  // Offscreen only: most paints per second
+  frameRate?: number;
+}
 
 export interface Session {
   id: string;
   nodeId: string;
+  mode: SessionMode;
   window: BrowserWindow;
   windowId: number;
+  // The page itself; captures, navigation and input all go through its webContents
+  page: PageView;
   lastFrame: Buffer | null;
+  // Offscreen only: the latest `paint`, since there's no on-screen surface to capture
+  lastPaint: NativeImage | null;
+  // MJPEG clients of GET /stream/:nodeId
+  stream: FrameStream;
+  // Streams the window to viewers; absent for local-only sessions without an owner token
+  publisher: Publisher | null;
+  // Who may send input, and who is
+  control: ControlLock;
+  input: InputInjector;
 }
 
-export class SessionManager {
+export type NavigationAction = 'back' | 'forward' | 'reload' | 'stop';
+
+// Emits 'page-state' (nodeId, state) whenever a session's page changes, 'control-state'
+// (nodeId, state) when its controller or grants change, and 'session-closed' (nodeId)
+// when a session goes away
+export class SessionManager extends EventEmitter {
   private sessions: Map<string, Session> = new Map();
 
-  async createSession(nodeId: string, ownerToken: string, title: string): Promise<Session> {
-    console.log(`[Session] Creating window for node ${nodeId}`);
+  async createSession(
+    nodeId: string,
+    ownerToken: string | undefined,
+    title: string,
+    options: SessionOptions = {}
+  ): Promise<Session> {
+    // One window (and one publisher) per node; connecting again brings it back up
+    const existing = this.sessions.get(nodeId);
+    if (existing && !existing.window.isDestroyed()) {
+      if (existing.mode === 'visible') {
+        existing.window.show();
+        existing.window.focus();
+      }
+      return existing;
+    }
+
+    const mode = options.mode || 'visible';
+    const url = normalizeUrl(options.url || DEFAULT_URL);
+    const width = clampInt(options.width, 320, MAX_SESSION_SIZE, SESSION_WIDTH);
+    const height = clampInt(options.height, 240, MAX_SESSION_SIZE, SESSION_HEIGHT);
+    log.info('Creating window', { nodeId, mode, width, height });
 
-    // Create browser window with navigation
+    // The window only frames the page view; offscreen sessions never show it
+    const windowTitle = title || `Browser Session - ${nodeId.slice(0, 8)}`;
     const window = new BrowserWindow({
-      width: 1280,
-      height: 720,
-      title: title || `Browser Session - ${nodeId.slice(0, 8)}`,
+      width,
+      height,
+      useContentSize: true,
+      show: mode === 'visible',
+      title: windowTitle,
       webPreferences: {
         nodeIntegration: false,
         contextIsolation: true,
@@ -31,144 +102,183 @@ export class SessionManager {
 
     const windowId = window.id;
 
-    // Set up window with navigation
-    this.setupBrowserWindow(window, nodeId);
+    const page = new PageView(nodeId, window, { offscreen: mode === 'offscreen', width, height }, (state) => {
+      if (!window.isDestroyed()) window.setTitle(state.title || windowTitle);
+      this.emit('page-state', nodeId, state);
+    });
+
+    const input = new InputInjector(page.contents);
+    let holder: string | null = null;
+    const control = new ControlLock(() => {
+      const state = this.controlState(session);
+      if (state.holder !== holder) {
+        holder = state.holder;
+        input.releaseButtons();
+        log.info('Control changed', { nodeId, holder });
+      }
+      session.publisher?.setControlState(state);
+      this.emit('control-state', nodeId, state);
+    });
 
     // Store session
     const session: Session = {
       id: nodeId,
       nodeId,
+      mode,
       window,
       windowId,
+      page,
       lastFrame: null,
+      lastPaint: null,
+      stream: new FrameStream(nodeId, page.contents),
+      publisher: ownerToken
+        ? new Publisher({
+          nodeId,
+          ownerToken,
+          source: window,
+          contents: page.contents,
+          // Desktop capture can't see a window that's never drawn on screen
+          capture: mode === 'offscreen' ? 'paint' : 'window',
+          onSignal: (msg) => this.handleSignalMessage(msg),
+          onInput: (peerId, events) => this.sendInput(nodeId, peerId, events),
+          onRelease: (peerId) => control.release(peerId),
+          getControlState: () => this.controlState(session),
+        })
+        : null,
+      control,
+      input,
     };
 
+    if (mode === 'offscreen') {
+      page.contents.setFrameRate(clampInt(options.frameRate, 1, MAX_FRAME_RATE, OFFSCREEN_FRAME_RATE));
+      page.contents.on('paint', (event, dirtyRect, image) => {
+        session.lastPaint = image;
+      });
+    } else {
+      window.show();
+      window.focus();
+    }
+
     this.sessions.set(nodeId, session);
-    console.log(`[Session] Session ${nodeId} ready`);
+    page.navigate(url);
+    session.publisher?.start();
+    log.info('Session ready', { nodeId, publishing: !!session.publisher });
 
     // Handle window close
     window.on('closed', () => {
+      session.stream.close();
+      control.dispose();
+      session.publisher?.stop();
+      page.destroy();
       this.sessions.delete(nodeId);
-      console.log(`[Session] ${nodeId} stopped`);
+      this.emit('session-closed', nodeId);
+      log.info('Session stopped', { nodeId });
     });
 
     return session;
   }
 
-  private setupBrowserWindow(window: BrowserWindow, nodeId: string) {
-    // Load a simple HTML page with iframe-based browser
-    const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>Browser Session</title>
-  <style>
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body { 
-      font-family: -apple-system, BlinkMacSystemFont, sans-serif; 
-      background: #1a1a1a;
-      height: 100vh;
-      display: flex;
-      flex-direction: column;
-    }
-    .toolbar { 
-      display: flex; 
-      padding: 8px 12px; 
-      background: #2a2a2a; 
-      border-bottom: 1px solid #444;
-      gap: 8px;
-      align-items: center;
-    }
-    input { 
-      flex: 1; 
-      padding: 8px 12px; 
-      border: 1px solid #555; 
-      border-radius: 6px; 
-      background: #1a1a1a;
-      color: #fff;
-      font-size: 14px;
-      outline: none;
-    }
-    input:focus { border-color: #3b82f6; }
-    button { 
-      padding: 8px 16px; 
-      background: #3b82f6; 
-      color: white; 
-      border: none; 
-      border-radius: 6px; 
-      cursor: pointer;
-      font-size: 14px;
-      font-weight: 500;
-    }
-    button:hover { background: #2563eb; }
-    #frame { 
-      flex: 1; 
-      width: 100%; 
-      border: none;
-      background: white;
-    }
-  </style>
-</head>
-<body>
-  <div class="toolbar">
-    <input type="text" id="url" placeholder="Enter URL" value="https://example.com" />
-    <button onclick="navigate()">Go</button>
-  </div>
-  <iframe id="frame" src="https://example.com" sandbox="allow-scripts allow-same-origin allow-popups allow-forms"></iframe>
-  <script>
-    const urlInput = document.getElementById('url');
-    const frame = document.getElementById('frame');
-    
-    function navigate() {
-      let url = urlInput.value.trim();
-      if (!url) return;
-      if (!url.startsWith('http')) url = 'https://' + url;
-      frame.src = url;
-    }
-    
-    urlInput.addEventListener('keypress', function(e) {
-      if (e.key === 'Enter') navigate();
-    });
-    
-    // Update URL bar when iframe navigates
-    frame.addEventListener('load', function() {
-      try {
-        urlInput.value = frame.contentWindow.location.href;
-      } catch(e) {
-        // Cross-origin, can't read URL
-      }
-    });
-  </script>
-</body>
-</html>
-    `;
-
-    // Write to temp file and load
-    const tempPath = path.join(os.tmpdir(), `browser-session-${nodeId}.html`);
-    fs.writeFileSync(tempPath, htmlContent);
-    
-    window.loadFile(tempPath);
-    window.show();
-    window.focus();
-  }
-
   async captureFrame(nodeId: string): Promise<Buffer | null> {
     const session = this.sessions.get(nodeId);
     if (!session || !session.window || session.window.isDestroyed()) {
       return null;
     }
 
+    // Offscreen pages only exist as paints; there's nothing on screen for capturePage() to read
+    if (session.mode === 'offscreen') {
+      return session.lastPaint && !session.lastPaint.isEmpty() ? session.lastPaint.toPNG() : null;
+    }
+
     try {
-      const image = await session.window.webContents.capturePage();
+      const image = await session.page.contents.capturePage();
       const buffer = image.toPNG();
       return buffer;
     } catch (err) {
-      console.error('[Capture] Failed:', err);
+      log.error('Frame capture failed', { nodeId, err });
       return null;
     }
   }
 
+  // Attach an HTTP response to the session's MJPEG stream; false if there's no such session
+  streamFrames(nodeId: string, res: ServerResponse, options?: StreamOptions): boolean {
+    const session = this.sessions.get(nodeId);
+    if (!session || session.window.isDestroyed()) return false;
+
+    session.stream.subscribe(res, options);
+    return true;
+  }
+
+  getPageState(nodeId: string): PageState | null {
+    const session = this.sessions.get(nodeId);
+    return session ? session.page.getState() : null;
+  }
+
+  // Load `url` in the session's page. Throws NavigationError for URLs it won't load.
+  navigate(nodeId: string, url: string): PageState | null {
+    const session = this.sessions.get(nodeId);
+    if (!session) return null;
+
+    session.page.navigate(url);
+    log.info('Navigating', { nodeId, url });
+    return session.page.getState();
+  }
+
+  // Throws NavigationError when there's no history to move through
+  runNavigation(nodeId: string, action: NavigationAction): PageState | null {
+    const session = this.sessions.get(nodeId);
+    if (!session) return null;
+
+    session.page[action]();
+    return session.page.getState();
+  }
+
+  getControlState(nodeId: string): ControlState | null {
+    const session = this.sessions.get(nodeId);
+    return session ? this.controlState(session) : null;
+  }
+
+  // Inject `events` from `controller`: OWNER_CONTROLLER for the owner's canvas, otherwise a
+  // viewer's peerId. Returns why they were refused, or null once they're delivered.
+  sendInput(nodeId: string, controller: string, events: RemoteInputEvent[]): InputRejection | 'not_found' | null {
+    const session = this.sessions.get(nodeId);
+    if (!session || session.window.isDestroyed()) return 'not_found';
+
+    const rejection = session.control.acquire(controller);
+    if (rejection) return rejection;
+
+    for (const event of events) {
+      session.input.send(event);
+    }
+    return null;
+  }
+
+  // Give up control so someone else can take it; a no-op if `controller` doesn't hold it
+  releaseControl(nodeId: string, controller: string): ControlState | null {
+    const session = this.sessions.get(nodeId);
+    if (!session) return null;
+
+    session.control.release(controller);
+    return this.controlState(session);
+  }
+
+  // Let the viewer with `peerId` drive the session, or stop letting it
+  setControlGrant(nodeId: string, peerId: string, granted: boolean): ControlState | null {
+    const session = this.sessions.get(nodeId);
+    if (!session) return null;
+
+    if (granted) {
+      session.control.grant(peerId);
+    } else {
+      session.control.revoke(peerId);
+    }
+    log.info(granted ? 'Control granted' : 'Control revoked', { nodeId, peerId });
+    return this.controlState(session);
+  }
+
+  private controlState(session: Session): ControlState {
+    return { ...session.control.state, ...session.page.getSize() };
+  }
+
   storeFrame(nodeId: string, frame: Buffer): void {
     const session = this.sessions.get(nodeId);
     if (session) {
@@ -176,9 +286,20 @@ export class SessionManager {
     }
   }
 
+  // Handle a message the signaling server pushes for one of our sessions
+  async handleSignalMessage(msg: ServerMessage): Promise<void> {
+    if (msg.type === 'revoke') {
+      log.info('Session revoked by owner', { nodeId: msg.nodeId });
+      await this.stopSession(msg.nodeId);
+    }
+  }
+
   async stopSession(nodeId: string): Promise<void> {
     const session = this.sessions.get(nodeId);
     if (session) {
+      session.stream.close();
+      session.control.dispose();
+      session.publisher?.stop();
       if (!session.window.isDestroyed()) {
         session.window.close();
       }
@@ -190,3 +311,8 @@ export class SessionManager {
     return Array.from(this.sessions.keys());
   }
 }
+
+function clampInt(value: number | undefined, min: number, max: number, fallback: number): number {
+  if (value === undefined || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
@@ -0,0 +1,3 @@
+export * from './messages';
+export * from './input';
+export * from './validate';
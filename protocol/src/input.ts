@@ -0,0 +1,43 @@
+// Remote input for a desktop helper session. The owner's canvas posts these to the helper
+// over HTTP; viewers the owner has granted control send them to the publisher over the
+// `input` data channel of their peer connection. The helper injects them into the page.
+
+export type Modifier = 'shift' | 'control' | 'alt' | 'meta';
+export type MouseButton = 'left' | 'middle' | 'right';
+
+// x/y are page coordinates: CSS pixels within the session's viewport (ControlState width/height)
+export type RemoteInputEvent =
+  | { type: 'mouseDown'; x: number; y: number; button: MouseButton; clickCount: number; modifiers?: Modifier[] }
+  | { type: 'mouseUp'; x: number; y: number; button: MouseButton; clickCount: number; modifiers?: Modifier[] }
+  | { type: 'mouseMove'; x: number; y: number; modifiers?: Modifier[] }
+  // DOM WheelEvent deltas in pixels: positive scrolls down/right
+  | { type: 'mouseWheel'; x: number; y: number; deltaX: number; deltaY: number; modifiers?: Modifier[] }
+  // `key` is KeyboardEvent.key, e.g. 'a', 'Enter' or 'ArrowUp'
+  | { type: 'keyDown'; key: string; modifiers?: Modifier[] }
+  | { type: 'keyUp'; key: string; modifiers?: Modifier[] };
+
+// The controller id of the node's owner; everyone else is a viewer peerId
+export const OWNER_CONTROLLER = 'owner';
+
+// Who may drive a session and who is
+export interface ControlState {
+  // Whoever sent input last, until they release control or go idle; null if nobody
+  holder: string | null;
+  // Viewer peerIds the owner has allowed to drive; the owner always may
+  grants: string[];
+  // Viewport size in CSS pixels, to map input coordinates onto
+  width: number;
+  height: number;
+}
+
+// Why input was refused: the sender has no grant, or someone else holds control
+export type InputRejection = 'not_granted' | 'locked';
+
+// Sent over the `input` data channel
+export type InputChannelMessage =
+  // Viewer -> publisher
+  | { type: 'input'; events: RemoteInputEvent[] }
+  | { type: 'release' }
+  // Publisher -> viewer: on open and whenever it changes
+  | { type: 'control'; state: ControlState }
+  | { type: 'input-rejected'; reason: InputRejection };
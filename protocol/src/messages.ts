@@ -0,0 +1,133 @@
+// Signaling messages exchanged over ws://<server>/signal
+
+// Bumped on any breaking change to the message shapes below.
+// v1 was the unversioned protocol where offer/answer/ice were broadcast to every peer.
+export const PROTOCOL_VERSION = 2;
+// Oldest client version the server still accepts
+export const MIN_PROTOCOL_VERSION = 2;
+
+// WebSocket close codes (4000-4999 is the application range)
+export const CloseCode = {
+  Revoked: 4001,
+  UnsupportedProtocol: 4002,
+  RateLimited: 4003,
+  Kicked: 4004,
+} as const;
+
+// Browser node status as shown in the canvas
+export type NodeStatus = 'idle' | 'connecting' | 'live' | 'offline';
+
+// Node as listed by GET /projects/:projectId/nodes and project events
+export interface ProjectNode {
+  nodeId: string;
+  projectId: string;
+  status: 'active' | 'revoked';
+  maxViewers: number;
+  liveness: Exclude<NodeStatus, 'connecting'>;
+  viewerCount: number;
+  createdAt: string;
+  lastSeenAt: string | null;
+}
+
+// A viewer as listed to its node's publisher and in presence updates
+export interface ViewerInfo {
+  peerId: string;
+  // From the viewer token request, if the viewer gave them
+  displayName: string | null;
+  // #rrggbb
+  color: string | null;
+  // ISO timestamp of the viewer's first join; resuming after a drop keeps it
+  joinedAt: string;
+}
+
+// Structural copies of the DOM's RTCSessionDescriptionInit/RTCIceCandidateInit,
+// so the server doesn't need the DOM lib
+export interface SessionDescription {
+  type: 'offer' | 'answer' | 'pranswer' | 'rollback';
+  sdp?: string;
+}
+
+export interface IceCandidate {
+  candidate?: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+export type ErrorCode =
+  | 'invalid_json'
+  | 'invalid_message'
+  | 'unknown_type'
+  | 'unsupported_protocol'
+  | 'invalid_token'
+  | 'not_registered'
+  | 'already_joined'
+  | 'node_unavailable'
+  | 'revoked'
+  | 'max_viewers'
+  | 'missing_peer'
+  | 'peer_not_found'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'resume_failed'
+  | 'blocked'
+  | 'internal';
+
+// offer/answer/ice are routed to the single peer named in `to`; the server fills in `from`.
+// Viewers may omit `to` to reach the node's publisher.
+export type RelayMessage =
+  | { type: 'offer'; nodeId: string; sdp: SessionDescription; to?: string; from?: string }
+  | { type: 'answer'; nodeId: string; sdp: SessionDescription; to?: string; from?: string }
+  | { type: 'ice'; nodeId: string; candidate: IceCandidate; to?: string; from?: string };
+
+// Client -> server. `publish`, `join` and `resume` carry the client's protocol version.
+export type ClientMessage =
+  | { type: 'publish'; nodeId: string; ownerToken: string; protocolVersion: number }
+  | { type: 'join'; nodeId: string; viewerToken: string; protocolVersion: number }
+  // Reclaim a dropped viewer session within its grace period, keeping its peerId and slot
+  | { type: 'resume'; nodeId: string; viewerToken: string; resumeToken: string; protocolVersion: number }
+  | RelayMessage
+  // sentAt: publisher's clock (ms) when sent, for latency metrics
+  | { type: 'heartbeat'; nodeId: string; payload?: any; sentAt?: number }
+  | { type: 'subscribe-project'; projectId: string }
+  | { type: 'unsubscribe-project'; projectId: string }
+  | { type: 'reauth'; token: string }
+  | { type: 'ping' };
+
+// Server -> client
+export type ServerMessage =
+  | { type: 'hello'; protocolVersion: number; minProtocolVersion: number }
+  // Viewers get a resumeToken to send in `resume` if their socket drops
+  | { type: 'connected'; role: 'publisher' | 'viewer'; peerId: string; resumeToken?: string }
+  | { type: 'join'; nodeId: string; peerId: string }
+  | { type: 'leave'; nodeId: string; peerId: string }
+  // A viewer resumed after a dropped socket; the publisher should restart ICE on its existing connection
+  | { type: 'viewer-reconnected'; nodeId: string; peerId: string }
+  | RelayMessage
+  | { type: 'revoke'; nodeId: string }
+  | { type: 'viewer-count'; nodeId: string; count: number }
+  // Everyone watching, oldest first; sent to the publisher on publish and whenever it changes
+  | { type: 'viewers'; nodeId: string; viewers: ViewerInfo[] }
+  // Everyone watching, sent to the publisher and every viewer whenever it changes
+  | { type: 'presence'; nodeId: string; viewers: ViewerInfo[] }
+  // The owner removed this viewer; the server closes the socket with code 4004 right after
+  | { type: 'kicked'; nodeId: string }
+  | { type: 'queued'; nodeId: string; position: number }
+  | { type: 'status'; nodeId: string; status: NodeStatus; lastSeenAt: number | null }
+  | { type: 'heartbeat'; nodeId: string; timestamp: number; payload?: any }
+  | { type: 'capture-error'; nodeId: string; error: string }
+  | { type: 'subscribed'; projectId: string }
+  | { type: 'node-created'; projectId: string; node: ProjectNode }
+  | { type: 'node-status'; projectId: string; nodeId: string; status: NodeStatus; lastSeenAt: number | null }
+  | { type: 'node-revoked'; projectId: string; nodeId: string }
+  // Same list as `presence`, for canvases showing the node without watching it. Also sent
+  // for every watched node right after `subscribed`.
+  | { type: 'node-presence'; projectId: string; nodeId: string; viewers: ViewerInfo[] }
+  | { type: 'reauthenticated'; expiresAt: number }
+  | { type: 'pong'; timestamp: number }
+  // The server is shutting down and will close this socket with 1001 (going away). Reconnect
+  // after `reconnectInMs`; viewers can resume their session on any instance.
+  | { type: 'server-restarting'; reconnectInMs: number }
+  | { type: 'error'; code: ErrorCode; message: string };
+
+export type SignalMessage = ClientMessage | ServerMessage;
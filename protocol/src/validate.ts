@@ -0,0 +1,169 @@
+import {
+  ClientMessage,
+  ErrorCode,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  ServerMessage,
+} from './messages';
+import { InputChannelMessage, RemoteInputEvent } from './input';
+
+type Check = (value: unknown) => boolean;
+type Schema = Record<string, Check>;
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; code: ErrorCode; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const id: Check = (v) => typeof v === 'string' && v.length > 0;
+const text: Check = (v) => typeof v === 'string';
+const num: Check = (v) => typeof v === 'number' && Number.isFinite(v);
+const int: Check = (v) => Number.isInteger(v);
+const anything: Check = () => true;
+const optional = (check: Check): Check => (v) => v === undefined || check(v);
+const nullable = (check: Check): Check => (v) => v === null || check(v);
+const oneOf = (...values: unknown[]): Check => (v) => values.includes(v);
+const object = (schema: Schema): Check => (v) => isRecord(v) && firstInvalidField(v, schema) === null;
+const arrayOf = (check: Check): Check => (v) => Array.isArray(v) && v.every(check);
+
+function firstInvalidField(value: Record<string, unknown>, schema: Schema): string | null {
+  for (const [field, check] of Object.entries(schema)) {
+    if (!check(value[field])) return field;
+  }
+  return null;
+}
+
+const sdp = object({ type: oneOf('offer', 'answer', 'pranswer', 'rollback'), sdp: optional(text) });
+const candidate = object({
+  candidate: optional(text),
+  sdpMid: optional(nullable(text)),
+  sdpMLineIndex: optional(nullable(int)),
+  usernameFragment: optional(nullable(text)),
+});
+const projectNode = object({
+  nodeId: id,
+  projectId: id,
+  status: oneOf('active', 'revoked'),
+  maxViewers: int,
+  liveness: oneOf('idle', 'live', 'offline'),
+  viewerCount: int,
+  createdAt: text,
+  lastSeenAt: nullable(text),
+});
+const viewerInfo = object({ peerId: id, displayName: nullable(text), color: nullable(text), joinedAt: text });
+const nodeStatus = oneOf('idle', 'connecting', 'live', 'offline');
+
+const relaySchemas = {
+  offer: { nodeId: id, sdp, to: optional(id), from: optional(id) },
+  answer: { nodeId: id, sdp, to: optional(id), from: optional(id) },
+  ice: { nodeId: id, candidate, to: optional(id), from: optional(id) },
+};
+
+const clientSchemas: { [T in ClientMessage['type']]: Schema } = {
+  publish: { nodeId: id, ownerToken: id, protocolVersion: int },
+  join: { nodeId: id, viewerToken: id, protocolVersion: int },
+  resume: { nodeId: id, viewerToken: id, resumeToken: id, protocolVersion: int },
+  ...relaySchemas,
+  heartbeat: { nodeId: id, payload: anything, sentAt: optional(num) },
+  'subscribe-project': { projectId: id },
+  'unsubscribe-project': { projectId: id },
+  reauth: { token: id },
+  ping: {},
+};
+
+const serverSchemas: { [T in ServerMessage['type']]: Schema } = {
+  hello: { protocolVersion: int, minProtocolVersion: int },
+  connected: { role: oneOf('publisher', 'viewer'), peerId: id, resumeToken: optional(id) },
+  join: { nodeId: id, peerId: id },
+  leave: { nodeId: id, peerId: id },
+  'viewer-reconnected': { nodeId: id, peerId: id },
+  ...relaySchemas,
+  revoke: { nodeId: id },
+  'viewer-count': { nodeId: id, count: int },
+  viewers: { nodeId: id, viewers: arrayOf(viewerInfo) },
+  presence: { nodeId: id, viewers: arrayOf(viewerInfo) },
+  kicked: { nodeId: id },
+  queued: { nodeId: id, position: int },
+  status: { nodeId: id, status: nodeStatus, lastSeenAt: nullable(num) },
+  heartbeat: { nodeId: id, timestamp: num, payload: anything },
+  'capture-error': { nodeId: id, error: text },
+  subscribed: { projectId: id },
+  'node-created': { projectId: id, node: projectNode },
+  'node-status': { projectId: id, nodeId: id, status: nodeStatus, lastSeenAt: nullable(num) },
+  'node-revoked': { projectId: id, nodeId: id },
+  'node-presence': { projectId: id, nodeId: id, viewers: arrayOf(viewerInfo) },
+  reauthenticated: { expiresAt: num },
+  pong: { timestamp: num },
+  'server-restarting': { reconnectInMs: int },
+  // Codes aren't checked against ErrorCode so older clients can read errors newer servers add
+  error: { code: id, message: text },
+};
+
+const modifiers = optional(arrayOf(oneOf('shift', 'control', 'alt', 'meta')));
+const mouseButton = oneOf('left', 'middle', 'right');
+
+const inputEventSchemas: { [T in RemoteInputEvent['type']]: Schema } = {
+  mouseDown: { x: num, y: num, button: mouseButton, clickCount: int, modifiers },
+  mouseUp: { x: num, y: num, button: mouseButton, clickCount: int, modifiers },
+  mouseMove: { x: num, y: num, modifiers },
+  mouseWheel: { x: num, y: num, deltaX: num, deltaY: num, modifiers },
+  keyDown: { key: id, modifiers },
+  keyUp: { key: id, modifiers },
+};
+const inputEvent: Check = (v) => parseWith(inputEventSchemas, v).ok;
+const controlState = object({ holder: nullable(id), grants: arrayOf(id), width: num, height: num });
+
+const inputChannelSchemas: { [T in InputChannelMessage['type']]: Schema } = {
+  input: { events: arrayOf(inputEvent) },
+  release: {},
+  control: { state: controlState },
+  'input-rejected': { reason: oneOf('not_granted', 'locked') },
+};
+
+function parseWith<T>(schemas: Record<string, Schema>, data: unknown): ParseResult<T> {
+  if (!isRecord(data) || typeof data.type !== 'string') {
+    return { ok: false, code: 'invalid_message', error: 'Message must be an object with a string type' };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(schemas, data.type)) {
+    return { ok: false, code: 'unknown_type', error: `Unknown message type: ${data.type}` };
+  }
+
+  const field = firstInvalidField(data, schemas[data.type]);
+  if (field) {
+    return { ok: false, code: 'invalid_message', error: `Invalid or missing "${field}" in ${data.type} message` };
+  }
+
+  return { ok: true, message: data as T };
+}
+
+export function parseClientMessage(data: unknown): ParseResult<ClientMessage> {
+  return parseWith(clientSchemas, data);
+}
+
+export function parseServerMessage(data: unknown): ParseResult<ServerMessage> {
+  return parseWith(serverSchemas, data);
+}
+
+export function parseInputChannelMessage(data: unknown): ParseResult<InputChannelMessage> {
+  return parseWith(inputChannelSchemas, data);
+}
+
+export function parseRemoteInputEvent(data: unknown): ParseResult<RemoteInputEvent> {
+  return parseWith(inputEventSchemas, data);
+}
+
+// Explain why a client's declared protocol version can't be served, or null if it can.
+// Clients from before versioning send no version at all.
+export function checkProtocolVersion(version: unknown): string | null {
+  if (version === undefined) {
+    return `Client did not declare a protocol version; this server requires v${MIN_PROTOCOL_VERSION}-v${PROTOCOL_VERSION}. Please update.`;
+  }
+  if (!Number.isInteger(version) || (version as number) < MIN_PROTOCOL_VERSION || (version as number) > PROTOCOL_VERSION) {
+    return `Protocol v${version} is not supported; this server speaks v${MIN_PROTOCOL_VERSION}-v${PROTOCOL_VERSION}. Please update.`;
+  }
+  return null;
+}
@@ -10,6 +10,7 @@
 
 import WebSocket from 'ws';
 import fetch from 'node-fetch';
+import { PROTOCOL_VERSION } from 'tldraw-browser-canvas-protocol';
 
 const API_URL = process.env.API_URL || 'http://localhost:3001';
 const WS_URL = process.env.WS_URL || 'ws://localhost:3001/signal';
@@ -45,6 +46,7 @@ async function testSignaling() {
         type: 'publish',
         nodeId,
         ownerToken,
+        protocolVersion: PROTOCOL_VERSION,
       }));
       resolve();
     });
@@ -87,6 +89,7 @@ async function testSignaling() {
         type: 'join',
         nodeId,
         viewerToken,
+        protocolVersion: PROTOCOL_VERSION,
       }));
       resolve();
     });
@@ -0,0 +1,95 @@
+/**
+ * TURN credential test script
+ *
+ * Validates the short-lived credentials from GET /nodes/:id/ice-servers the same way
+ * coturn does with `use-auth-secret`: the username is "<expiry>:<subject>" and the
+ * password must equal base64(HMAC-SHA1(static-auth-secret, username)).
+ *
+ * Usage:
+ * 1. Start the signaling server with TURN configured:
+ *    TURN_URLS=turn:localhost:3478 TURN_SECRET=dev-turn-secret npm run dev:server
+ * 2. Run this test: TURN_SECRET=dev-turn-secret npx ts-node scripts/test-turn.ts
+ */
+
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+
+const API_URL = process.env.API_URL || 'http://localhost:3001';
+const TURN_SECRET = process.env.TURN_SECRET || 'dev-turn-secret';
+
+// What a coturn-compatible server checks before allocating a relay
+function turnServerAccepts(username: string, credential: string): boolean {
+  const expiry = Number(username.split(':')[0]);
+  if (!expiry || expiry < Date.now() / 1000) return false;
+
+  const expected = crypto.createHmac('sha1', TURN_SECRET).update(username).digest('base64');
+  return expected === credential;
+}
+
+async function testTurn() {
+  console.log('🧪 Testing TURN credential issuance...\n');
+
+  // Step 1: Create a node via REST API
+  console.log('1️⃣ Creating node via REST API...');
+  const createRes = await fetch(`${API_URL}/nodes`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId: 'test-project' }),
+  });
+
+  if (!createRes.ok) {
+    console.error('❌ Failed to create node:', await createRes.text());
+    process.exit(1);
+  }
+
+  const { nodeId, ownerToken } = await createRes.json() as any;
+  console.log(`✅ Node created: ${nodeId}\n`);
+
+  // Step 2: Anonymous callers get nothing
+  console.log('2️⃣ Requesting ICE servers without a token...');
+  const anonRes = await fetch(`${API_URL}/nodes/${nodeId}/ice-servers`);
+  if (anonRes.status !== 401) {
+    console.error(`❌ Expected 401, got ${anonRes.status}`);
+    process.exit(1);
+  }
+  console.log('✅ Rejected with 401\n');
+
+  // Step 3: Owner and viewer both get credentials
+  const viewerRes = await fetch(`${API_URL}/nodes/${nodeId}/viewer-token`, { method: 'POST' });
+  const { viewerToken } = await viewerRes.json() as any;
+
+  for (const [role, token] of [['owner', ownerToken], ['viewer', viewerToken]]) {
+    console.log(`3️⃣ Requesting ICE servers as ${role}...`);
+    const res = await fetch(`${API_URL}/nodes/${nodeId}/ice-servers`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const { iceServers, expiresAt } = await res.json() as any;
+    const turn = iceServers.find((server: any) => server.username);
+
+    if (!turn) {
+      console.error('❌ No TURN server returned - is TURN_URLS/TURN_SECRET set on the server?');
+      process.exit(1);
+    }
+
+    console.log(`   Username: ${turn.username}`);
+    console.log(`   Expires:  ${new Date(expiresAt).toISOString()}`);
+
+    if (!turnServerAccepts(turn.username, turn.credential)) {
+      console.error('❌ TURN stand-in rejected the credentials');
+      process.exit(1);
+    }
+    if (turnServerAccepts(turn.username, 'forged')) {
+      console.error('❌ TURN stand-in accepted a forged credential');
+      process.exit(1);
+    }
+    console.log('✅ TURN stand-in accepted the credentials\n');
+  }
+
+  console.log('🎉 TURN credential test passed!');
+  process.exit(0);
+}
+
+testTurn().catch((err) => {
+  console.error('❌ Test failed:', err);
+  process.exit(1);
+});
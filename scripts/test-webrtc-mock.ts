@@ -11,6 +11,7 @@
 
 import WebSocket from 'ws';
 import fetch from 'node-fetch';
+import { PROTOCOL_VERSION } from 'tldraw-browser-canvas-protocol';
 
 const API_URL = process.env.API_URL || 'http://localhost:3001';
 const WS_URL = process.env.WS_URL || 'ws://localhost:3001/signal';
@@ -94,6 +95,7 @@ async function testWebRTC() {
         type: 'publish',
         nodeId,
         ownerToken,
+        protocolVersion: PROTOCOL_VERSION,
       }));
       resolve();
     });
@@ -109,6 +111,16 @@ async function testWebRTC() {
   });
   const { viewerToken } = await viewerRes.json() as any;
 
+  // The publisher learns the viewer's peerId from the join notification
+  const viewerPeerIdPromise = new Promise<string>((resolve) => {
+    desktopWs.on('message', (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === 'join') {
+        resolve(msg.peerId);
+      }
+    });
+  });
+
   const webappWs = new WebSocket(WS_URL);
   
   await new Promise<void>((resolve, reject) => {
@@ -117,13 +129,15 @@ async function testWebRTC() {
         type: 'join',
         nodeId,
         viewerToken,
+        protocolVersion: PROTOCOL_VERSION,
       }));
       resolve();
     });
     webappWs.on('error', reject);
   });
 
-  console.log('✅ Web app connected as viewer\n');
+  const viewerPeerId = await viewerPeerIdPromise;
+  console.log(`✅ Web app connected as viewer (peer ${viewerPeerId})\n`);
 
   // Step 4: Simulate WebRTC handshake
   console.log('4️⃣ Simulating WebRTC handshake...\n');
@@ -140,6 +154,7 @@ async function testWebRTC() {
   desktopWs.send(JSON.stringify({
     type: 'offer',
     nodeId,
+    to: viewerPeerId,
     sdp: offer,
   }));
 
@@ -195,6 +210,7 @@ async function testWebRTC() {
   desktopWs.send(JSON.stringify({
     type: 'ice',
     nodeId,
+    to: viewerPeerId,
     candidate: mockIceCandidate,
   }));
 
@@ -0,0 +1,49 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { createLogger } from '../logger';
+import { applyQuery } from './query';
+import type { AuditEvent, AuditLog, AuditQuery } from './index';
+
+const log = createLogger('audit');
+
+// One JSON object per line, appended in order. Queries scan the file rather than
+// keeping every event in memory.
+export class FileAuditLog implements AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async append(event: AuditEvent): Promise<void> {
+    const line = JSON.stringify(event) + '\n';
+
+    // Chained so lines land in the order events happened
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, line);
+    });
+    return this.writing;
+  }
+
+  async listByNode(nodeId: string, query?: AuditQuery): Promise<AuditEvent[]> {
+    await this.flush();
+    if (!fs.existsSync(this.filePath)) return [];
+
+    const events: AuditEvent[] = [];
+    const lines = readline.createInterface({ input: fs.createReadStream(this.filePath), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as AuditEvent;
+        if (event.nodeId === nodeId) events.push(event);
+      } catch (err) {
+        log.error('Skipping unreadable audit line', { path: this.filePath, err });
+      }
+    }
+    return applyQuery(events, query);
+  }
+
+  async flush(): Promise<void> {
+    await this.writing.catch(() => {});
+  }
+}
@@ -0,0 +1,86 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../logger';
+import { MemoryAuditLog } from './memory';
+import { FileAuditLog } from './file';
+import { RedisAuditLog } from './redis';
+
+const log = createLogger('audit');
+
+export type AuditEventType =
+  | 'node.created'
+  | 'node.revoked'
+  | 'publisher.connected'
+  | 'publisher.disconnected'
+  | 'viewer.token_issued'
+  | 'viewer.joined'
+  | 'viewer.left'
+  | 'viewer.kicked'
+  | 'auth.failed';
+
+export interface AuditEvent {
+  id: string;
+  // ISO timestamp
+  at: string;
+  type: AuditEventType;
+  nodeId: string;
+  // Token subject (owner:<nodeId>, viewer:<id>) or token type for older tokens
+  subject: string | null;
+  remoteAddress: string | null;
+  // Event-specific fields, e.g. peerId, reserved, code
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  // Only events strictly after this time
+  since?: Date;
+  limit?: number;
+}
+
+// Append-only: events are never updated or removed
+export interface AuditLog {
+  append(event: AuditEvent): Promise<void>;
+  // Events for a node, oldest first
+  listByNode(nodeId: string, query?: AuditQuery): Promise<AuditEvent[]>;
+  // Resolve once every appended event has been written
+  flush(): Promise<void>;
+}
+
+// AUDIT_LOG=memory (default) | file | redis; AUDIT_LOG_PATH sets the JSON Lines file location
+export function createAuditLog(): AuditLog {
+  const kind = process.env.AUDIT_LOG || 'memory';
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryAuditLog();
+    case 'file':
+      return new FileAuditLog(process.env.AUDIT_LOG_PATH || path.join(process.cwd(), 'data', 'audit.jsonl'));
+    case 'redis':
+      return new RedisAuditLog();
+    default:
+      throw new Error(`Unknown AUDIT_LOG: ${kind}`);
+  }
+}
+
+export const auditLog = createAuditLog();
+
+// Record an event without holding up the caller; a failed write is logged, not thrown
+export function audit(
+  type: AuditEventType,
+  nodeId: string,
+  fields: { subject?: string | null; remoteAddress?: string | null; details?: Record<string, unknown> } = {}
+) {
+  const event: AuditEvent = {
+    id: uuidv4(),
+    at: new Date().toISOString(),
+    type,
+    nodeId,
+    subject: fields.subject ?? null,
+    remoteAddress: fields.remoteAddress ?? null,
+    ...(fields.details ? { details: fields.details } : {}),
+  };
+
+  auditLog.append(event).catch((err) => {
+    log.error('Failed to record audit event', { type, nodeId, err });
+  });
+}
@@ -0,0 +1,18 @@
+import { applyQuery } from './query';
+import type { AuditEvent, AuditLog, AuditQuery } from './index';
+
+export class MemoryAuditLog implements AuditLog {
+  private events = new Map<string, AuditEvent[]>();
+
+  async append(event: AuditEvent): Promise<void> {
+    const events = this.events.get(event.nodeId) || [];
+    events.push(event);
+    this.events.set(event.nodeId, events);
+  }
+
+  async listByNode(nodeId: string, query?: AuditQuery): Promise<AuditEvent[]> {
+    return applyQuery(this.events.get(nodeId) || [], query);
+  }
+
+  async flush(): Promise<void> {}
+}
@@ -0,0 +1,8 @@
+import type { AuditEvent, AuditQuery } from './index';
+
+// Apply `since` and `limit` to events already in chronological order
+export function applyQuery(events: AuditEvent[], query: AuditQuery = {}): AuditEvent[] {
+  const since = query.since ? query.since.getTime() : null;
+  const matching = since === null ? events : events.filter((event) => Date.parse(event.at) > since);
+  return query.limit !== undefined ? matching.slice(0, query.limit) : matching;
+}
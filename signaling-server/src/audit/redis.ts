@@ -0,0 +1,24 @@
+import { REDIS_PREFIX, createRedisClient } from '../redis';
+import { applyQuery } from './query';
+import type { AuditEvent, AuditLog, AuditQuery } from './index';
+
+// One Redis list per node, shared by every signaling instance
+export class RedisAuditLog implements AuditLog {
+  private redis = createRedisClient('audit');
+
+  private key(nodeId: string): string {
+    return `${REDIS_PREFIX}audit:${nodeId}`;
+  }
+
+  async append(event: AuditEvent): Promise<void> {
+    await this.redis.rpush(this.key(event.nodeId), JSON.stringify(event));
+  }
+
+  async listByNode(nodeId: string, query?: AuditQuery): Promise<AuditEvent[]> {
+    const lines = await this.redis.lrange(this.key(nodeId), 0, -1);
+    return applyQuery(lines.map((line) => JSON.parse(line) as AuditEvent), query);
+  }
+
+  // RPUSH is acknowledged before append resolves, so nothing is buffered here
+  async flush(): Promise<void> {}
+}
@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { audit } from './audit';
+import { authFailures } from './metrics';
+
+export const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
+export const TOKEN_EXPIRY = '15m';
+// Resume tokens only work while the server holds a dropped viewer's slot, so they can outlive
+// viewer tokens; a resume also requires a current viewer token
+const RESUME_TOKEN_EXPIRY = '24h';
+
+export type TokenType = 'owner' | 'viewer' | 'resume';
+
+export interface NodeTokenClaims {
+  type: TokenType;
+  nodeId: string;
+  projectId: string;
+  // Viewer tokens: the slot reserved for this token when it was issued.
+  // Resume tokens: the slot held for the viewer after its socket drops.
+  slotId?: string;
+  // Resume tokens only: the viewer's peerId, kept across reconnects
+  peerId?: string;
+  // Who the token was issued to (owner:<nodeId> or viewer:<id>), kept across refreshes
+  sub?: string;
+  // Viewer tokens: display name and #rrggbb color shown in presence, if the viewer gave them
+  name?: string;
+  color?: string;
+  // Expiry in seconds since epoch, set by jwt.sign
+  exp: number;
+}
+
+export class AuthError extends Error {
+  constructor(public status: 401 | 403, public code: string, message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export function signNodeToken(
+  type: TokenType,
+  nodeId: string,
+  projectId: string,
+  extra: Pick<NodeTokenClaims, 'slotId' | 'sub' | 'name' | 'color'> = {}
+): string {
+  return jwt.sign({ ...extra, type, nodeId, projectId }, JWT_SECRET, { expiresIn: TOKEN_EXPIRY });
+}
+
+export function signResumeToken(nodeId: string, projectId: string, peerId: string, slotId: string): string {
+  return jwt.sign({ type: 'resume', nodeId, projectId, peerId, slotId }, JWT_SECRET, { expiresIn: RESUME_TOKEN_EXPIRY });
+}
+
+// Subject to record in the audit log; tokens from before subjects existed fall back to their type
+export function tokenSubject(claims: NodeTokenClaims): string {
+  return claims.sub || claims.type;
+}
+
+// Expiry of a token we signed, in ms since epoch
+export function tokenExpiresAt(token: string): number {
+  const { exp } = jwt.decode(token) as NodeTokenClaims;
+  return exp * 1000;
+}
+
+function decodeToken(token: unknown): any {
+  try {
+    return jwt.verify(String(token), JWT_SECRET);
+  } catch (err) {
+    throw new AuthError(401, 'invalid_token', 'Invalid or expired token');
+  }
+}
+
+// Verify a node-scoped JWT and check that its type and nodeId claims match
+export function verifyNodeToken(token: unknown, type: TokenType | TokenType[], nodeId: string): NodeTokenClaims {
+  const allowed = Array.isArray(type) ? type : [type];
+  const decoded = decodeToken(token);
+
+  if (!allowed.includes(decoded.type) || decoded.nodeId !== nodeId) {
+    throw new AuthError(403, 'forbidden', `Not a valid ${allowed.join(' or ')} token for this node`);
+  }
+
+  return decoded;
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1] : undefined;
+}
+
+// Verify an owner token for any node in `projectId`
+export function verifyProjectOwnerToken(token: unknown, projectId: string): NodeTokenClaims {
+  const decoded = decodeToken(token);
+
+  if (decoded.type !== 'owner' || decoded.projectId !== projectId) {
+    throw new AuthError(403, 'forbidden', 'Not an owner token for a node in this project');
+  }
+
+  return decoded;
+}
+
+function recordAuthFailure(req: Request, code: string) {
+  authFailures.inc({ transport: 'http', code });
+  // Project routes have no node to file the event under
+  if (!req.params.nodeId) return;
+  audit('auth.failed', req.params.nodeId, {
+    remoteAddress: req.ip,
+    details: { transport: 'http', code, method: req.method, path: req.path },
+  });
+}
+
+// Require `Authorization: Bearer <token>` of one of `types` for the :nodeId route param.
+// The verified claims are left in res.locals.claims.
+export function requireNodeToken(...types: TokenType[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = bearerToken(req);
+    if (!token) {
+      recordAuthFailure(req, 'missing_token');
+      return res.status(401).json({ error: 'Bearer token required', code: 'missing_token' });
+    }
+
+    try {
+      res.locals.claims = verifyNodeToken(token, types, req.params.nodeId);
+      next();
+    } catch (err) {
+      if (err instanceof AuthError) {
+        recordAuthFailure(req, err.code);
+        return res.status(err.status).json({ error: err.message, code: err.code });
+      }
+      next(err);
+    }
+  };
+}
+
+export const requireOwner = requireNodeToken('owner');
+
+// Require the owner token of any node in the :projectId route param. Project-level
+// settings such as webhooks belong to whoever owns the project's nodes.
+export function requireProjectOwner(req: Request, res: Response, next: NextFunction) {
+  const token = bearerToken(req);
+  if (!token) {
+    recordAuthFailure(req, 'missing_token');
+    return res.status(401).json({ error: 'Bearer token required', code: 'missing_token' });
+  }
+
+  try {
+    res.locals.claims = verifyProjectOwnerToken(token, req.params.projectId);
+    next();
+  } catch (err) {
+    if (err instanceof AuthError) {
+      recordAuthFailure(req, err.code);
+      return res.status(err.status).json({ error: err.message, code: err.code });
+    }
+    next(err);
+  }
+}
+
+// Server-wide admin routes; disabled (404) unless ADMIN_SECRET is set
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.ADMIN_SECRET;
+  if (!secret) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  const given = Buffer.from(bearerToken(req) || '');
+  const expected = Buffer.from(secret);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    authFailures.inc({ transport: 'http', code: 'invalid_admin_secret' });
+    return res.status(401).json({ error: 'Admin secret required', code: 'invalid_token' });
+  }
+
+  next();
+}
@@ -0,0 +1,50 @@
+import type { ServerMessage } from 'tldraw-browser-canvas-protocol';
+import { MemoryMessageBus } from './memory';
+import { RedisMessageBus } from './redis';
+
+// What one signaling instance tells the others about nodes and projects. Each instance
+// handles its own events locally before publishing, so receivers skip their own `origin`.
+export type BusEvent =
+  // Send `message` to the node's local sockets, optionally only one role or one peer
+  | {
+      kind: 'deliver';
+      origin: string;
+      nodeId: string;
+      message: ServerMessage;
+      targetType?: 'publisher' | 'viewer';
+      peerId?: string;
+    }
+  | { kind: 'project'; origin: string; projectId: string; message: ServerMessage }
+  | { kind: 'revoke'; origin: string; nodeId: string }
+  // A viewer left; instances with queued viewers for the node should try to admit them
+  | { kind: 'slot-freed'; origin: string; nodeId: string }
+  // A dropped viewer resumed; whichever instance is holding its slot stops the grace timer
+  | { kind: 'viewer-resumed'; origin: string; nodeId: string; peerId: string }
+  // The owner kicked a viewer; whichever instance holds it blocks its token and closes it
+  | { kind: 'kick'; origin: string; nodeId: string; peerId: string };
+
+export interface MessageBus {
+  // Whether other instances can be listening. When false, a peer that isn't connected
+  // locally isn't connected anywhere.
+  readonly shared: boolean;
+  publish(channel: string, event: BusEvent): Promise<void>;
+  subscribe(channel: string, handler: (event: BusEvent) => void): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// MESSAGE_BUS=memory (default, single instance) | redis; REDIS_URL sets the server
+export function createMessageBus(): MessageBus {
+  const kind = process.env.MESSAGE_BUS || 'memory';
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryMessageBus();
+    case 'redis':
+      return new RedisMessageBus();
+    default:
+      throw new Error(`Unknown MESSAGE_BUS: ${kind}`);
+  }
+}
+
+export const messageBus = createMessageBus();
@@ -0,0 +1,28 @@
+import type { BusEvent, MessageBus } from './index';
+
+// In-process bus: events reach subscribers in this process only
+export class MemoryMessageBus implements MessageBus {
+  readonly shared = false;
+  private handlers = new Map<string, (event: BusEvent) => void>();
+
+  async publish(channel: string, event: BusEvent): Promise<void> {
+    const handler = this.handlers.get(channel);
+    if (!handler) return;
+
+    // Deliver asynchronously, like a real broker would
+    const copy = JSON.parse(JSON.stringify(event)) as BusEvent;
+    setImmediate(() => handler(copy));
+  }
+
+  async subscribe(channel: string, handler: (event: BusEvent) => void): Promise<void> {
+    this.handlers.set(channel, handler);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    this.handlers.delete(channel);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
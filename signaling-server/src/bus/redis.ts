@@ -0,0 +1,48 @@
+import { REDIS_PREFIX, createRedisClient } from '../redis';
+import { createLogger } from '../logger';
+import type { BusEvent, MessageBus } from './index';
+
+const log = createLogger('bus');
+
+// Redis pub/sub bus. A subscribed connection can't issue other commands, so
+// publishing and subscribing use separate connections.
+export class RedisMessageBus implements MessageBus {
+  readonly shared = true;
+  private pub = createRedisClient('bus-pub');
+  private sub = createRedisClient('bus-sub');
+  private handlers = new Map<string, (event: BusEvent) => void>();
+
+  constructor() {
+    this.sub.on('message', (channel: string, payload: string) => {
+      const handler = this.handlers.get(channel);
+      if (!handler) return;
+
+      let event: BusEvent;
+      try {
+        event = JSON.parse(payload);
+      } catch (err) {
+        log.error('Ignoring malformed event', { channel, err });
+        return;
+      }
+      handler(event);
+    });
+  }
+
+  async publish(channel: string, event: BusEvent): Promise<void> {
+    await this.pub.publish(REDIS_PREFIX + channel, JSON.stringify(event));
+  }
+
+  async subscribe(channel: string, handler: (event: BusEvent) => void): Promise<void> {
+    this.handlers.set(REDIS_PREFIX + channel, handler);
+    await this.sub.subscribe(REDIS_PREFIX + channel);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    this.handlers.delete(REDIS_PREFIX + channel);
+    await this.sub.unsubscribe(REDIS_PREFIX + channel);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.pub.quit(), this.sub.quit()]);
+  }
+}
@@ -0,0 +1,5 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Identifies this process among signaling servers sharing a message bus and node store.
+// New on every boot, so state left behind by an earlier run is never mistaken for ours.
+export const INSTANCE_ID = uuidv4();
@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+// Structured logging: one JSON object per line on stdout (stderr for warn/error), e.g.
+// {"time":"...","level":"info","module":"websocket","msg":"Viewer joined","nodeId":"...","connectionId":"..."}
+//
+// LOG_LEVEL sets the default level (info); LOG_LEVEL_<MODULE> overrides it for one
+// module, e.g. LOG_LEVEL_WEBSOCKET=debug or LOG_LEVEL_RATE_LIMIT=warn.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  const level = value?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : undefined;
+}
+
+function levelFor(module: string): LogLevel {
+  const key = `LOG_LEVEL_${module.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+  return parseLevel(process.env[key]) || parseLevel(process.env.LOG_LEVEL) || 'info';
+}
+
+// Errors don't survive JSON.stringify; keep what's useful for debugging
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  // Logger that adds `fields` to every line, e.g. a nodeId or correlation id
+  child(fields: LogFields): Logger;
+}
+
+class JsonLogger implements Logger {
+  private threshold: number;
+
+  constructor(private module: string, private fields: LogFields) {
+    this.threshold = LEVELS[levelFor(module)];
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields) {
+    if (LEVELS[level] < this.threshold) return;
+
+    const line: LogFields = { time: new Date().toISOString(), level, module: this.module, msg };
+    for (const [key, value] of Object.entries({ ...this.fields, ...fields })) {
+      if (value !== undefined) line[key] = serialize(value);
+    }
+
+    const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(JSON.stringify(line) + '\n');
+  }
+
+  debug(msg: string, fields?: LogFields) {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields) {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields) {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields) {
+    this.write('error', msg, fields);
+  }
+
+  child(fields: LogFields): Logger {
+    return new JsonLogger(this.module, { ...this.fields, ...fields });
+  }
+}
+
+export function createLogger(module: string, fields: LogFields = {}): Logger {
+  return new JsonLogger(module, fields);
+}
+
+const httpLog = createLogger('http');
+
+// Give every request a correlation id (the caller's X-Request-Id if it sent a sane one),
+// echo it back, and log the outcome. Handlers log through res.locals.log, which carries
+// the request id and, on node routes, the nodeId.
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers['x-request-id'];
+  const requestId = typeof header === 'string' && /^[\w.-]{1,64}$/.test(header) ? header : uuidv4();
+  const startedAt = Date.now();
+
+  res.setHeader('X-Request-Id', requestId);
+  res.locals.requestId = requestId;
+  res.locals.log = httpLog.child({ requestId });
+
+  res.on('finish', () => {
+    httpLog.info('Request completed', {
+      requestId,
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+      // Routes that create a node leave its id in res.locals
+      nodeId: req.params.nodeId || res.locals.nodeId,
+      projectId: req.params.projectId,
+    });
+  });
+
+  next();
+}
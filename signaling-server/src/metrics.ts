@@ -0,0 +1,140 @@
+// Minimal Prometheus metrics: counters and histograms updated in place, gauges read at scrape time.
+// Rendered in the text exposition format by GET /metrics.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): Promise<string[]>;
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Stable key for a label set, independent of property order
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  async render(): Promise<string[]> {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+// Value computed when scraped, e.g. from the clients map or the node store
+export class Gauge implements Metric {
+  constructor(
+    private name: string,
+    private help: string,
+    private collect: () => Promise<Array<[Labels, number]>> | Array<[Labels, number]>
+  ) {
+    registry.push(this);
+  }
+
+  async render(): Promise<string[]> {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    for (const [labels, value] of await this.collect()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  // `buckets` are upper bounds in ascending order; +Inf is implied
+  constructor(private name: string, private help: string, private buckets: number[]) {
+    registry.push(this);
+  }
+
+  observe(value: number, labels: Labels = {}) {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry!.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  async render(): Promise<string[]> {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export async function renderMetrics(): Promise<string> {
+  const sections = await Promise.all(registry.map((metric) => metric.render()));
+  return sections.map((lines) => lines.join('\n')).join('\n') + '\n';
+}
+
+export const messagesReceived = new Counter(
+  'signaling_messages_received_total',
+  'WebSocket messages received, by type (invalid for unparseable or unknown messages)'
+);
+export const messagesRelayed = new Counter(
+  'signaling_messages_relayed_total',
+  'offer/answer/ice messages relayed between peers, by type'
+);
+export const authFailures = new Counter(
+  'signaling_auth_failures_total',
+  'Rejected or missing tokens, by transport (http, websocket) and code'
+);
+export const rejectedJoins = new Counter(
+  'signaling_rejected_joins_total',
+  'Viewer joins and resumes that were refused, by reason'
+);
+export const disconnects = new Counter('signaling_disconnects_total', 'Closed WebSocket connections, by role');
+export const heartbeatLatency = new Histogram(
+  'signaling_heartbeat_latency_seconds',
+  'Delay between a publisher stamping a heartbeat (sentAt) and the server receiving it',
+  [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+);
+export const heartbeatInterval = new Histogram(
+  'signaling_heartbeat_interval_seconds',
+  'Time between consecutive heartbeats from one publisher socket',
+  [1, 2.5, 5, 7.5, 10, 15, 30, 60]
+);
+export const webhookDeliveries = new Counter(
+  'signaling_webhook_deliveries_total',
+  'Finished webhook deliveries, by event and outcome (succeeded, failed)'
+);
@@ -0,0 +1,116 @@
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { createLogger } from './logger';
+
+const log = createLogger('rate-limit');
+
+// A bucket holds up to `capacity` tokens and regains them all over `windowMs`
+export interface RateLimit {
+  capacity: number;
+  windowMs: number;
+}
+
+// Parse "<count>/<seconds>", e.g. "20/3600" for 20 per hour with bursts up to 20
+function parseLimit(value: string): RateLimit | null {
+  const match = /^\s*(\d+)\s*\/\s*(\d+(?:\.\d+)?)\s*$/.exec(value);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) <= 0) return null;
+  return { capacity: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
+
+export function limitFromEnv(name: string, fallback: string): RateLimit {
+  const value = process.env[name];
+  const limit = value ? parseLimit(value) : null;
+  if (value && !limit) {
+    log.warn('Ignoring invalid rate limit', { name, value, fallback });
+  }
+  return limit || (parseLimit(fallback) as RateLimit);
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private limit: RateLimit, now = Date.now()) {
+    this.tokens = limit.capacity;
+    this.updatedAt = now;
+  }
+
+  private refill(now: number) {
+    const rate = this.limit.capacity / this.limit.windowMs;
+    this.tokens = Math.min(this.limit.capacity, this.tokens + (now - this.updatedAt) * rate);
+    this.updatedAt = now;
+  }
+
+  // Take one token; on failure returns how long until one is available (ms)
+  take(now = Date.now()): { allowed: boolean; retryAfterMs: number } {
+    this.refill(now);
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    const rate = this.limit.capacity / this.limit.windowMs;
+    return { allowed: false, retryAfterMs: Math.ceil((1 - this.tokens) / rate) };
+  }
+
+  isFull(now = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.limit.capacity;
+  }
+}
+
+// Buckets keyed by IP, project, etc. Buckets that have refilled completely carry no
+// state worth keeping, so they're dropped periodically to bound memory.
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(public name: string, private limit: RateLimit) {
+    setInterval(() => this.prune(), Math.max(limit.windowMs, 60_000)).unref();
+  }
+
+  take(key: string): { allowed: boolean; retryAfterMs: number } {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limit);
+      this.buckets.set(key, bucket);
+    }
+    return bucket.take();
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (bucket.isFull(now)) this.buckets.delete(key);
+    }
+  }
+}
+
+// Remote address of a WebSocket upgrade request; behind a proxy the first
+// X-Forwarded-For hop is the client, matching Express' `trust proxy`
+export function requestAddress(req: IncomingMessage): string {
+  if (process.env.TRUST_PROXY) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded || '').split(',')[0].trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+// Charge `key` against `limiter`; on failure log it and answer 429 with Retry-After.
+// Returns false once the response has been sent.
+export function checkQuota(res: Response, limiter: RateLimiter, key: string): boolean {
+  const { allowed, retryAfterMs } = limiter.take(key);
+  if (allowed) return true;
+
+  const retryAfter = Math.ceil(retryAfterMs / 1000);
+  log.warn('Rate limit exceeded', { limiter: limiter.name, key, retryAfter, requestId: res.locals.requestId });
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({ error: 'Too many requests', code: 'rate_limited', retryAfter });
+  return false;
+}
+
+// Middleware form of checkQuota keyed by the caller's IP
+export function limitByIp(limiter: RateLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (checkQuota(res, limiter, req.ip || 'unknown')) next();
+  };
+}
@@ -0,0 +1,17 @@
+import Redis from 'ioredis';
+import { createLogger } from './logger';
+
+const log = createLogger('redis');
+
+export const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+// Prepended to every key and channel so several deployments can share one Redis
+export const REDIS_PREFIX = process.env.REDIS_PREFIX || 'browser-canvas:';
+
+export function createRedisClient(role: string): Redis {
+  const client = new Redis(REDIS_URL);
+  // ioredis reconnects on its own; without a listener every error would be thrown
+  client.on('error', (err) => {
+    log.error('Redis client error', { role, error: err.message });
+  });
+  return client;
+}
@@ -1,53 +1,131 @@
-import { Router } from 'express';
-import jwt from 'jsonwebtoken';
+import { Router, Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import { INSTANCE_ID } from './instance';
+import { broadcastToProject, kickViewer, listConnections, revokeNodeConnections } from './websocket';
+import {
+  NodeTokenClaims,
+  requireAdmin,
+  requireNodeToken,
+  requireOwner,
+  requireProjectOwner,
+  signNodeToken,
+  tokenExpiresAt,
+  tokenSubject,
+} from './auth';
+import { audit, auditLog } from './audit';
+import { nodeStore, toNodeSummary } from './store';
+import { getIceServers } from './turn';
+import { RateLimiter, checkQuota, limitByIp, limitFromEnv } from './rateLimit';
+import {
+  MAX_DELIVERIES_PER_WEBHOOK,
+  WEBHOOK_EVENTS,
+  WebhookEventType,
+  emitWebhook,
+  toWebhookSummary,
+  webhookStore,
+} from './webhooks';
+import { generateSecret } from './webhooks/delivery';
 
 const router = Router();
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
-const TOKEN_EXPIRY = '15m';
+// Server-wide ceiling for a node's viewer cap; nodes default to it
+const MAX_VIEWERS_LIMIT = Number(process.env.MAX_VIEWERS_LIMIT) || 3;
+// How long a viewer token holds its slot before it must have joined
+const RESERVATION_TTL_MS = Number(process.env.RESERVATION_TTL_MS) || 60_000;
 
-// In-memory store (replace with Redis in production)
-const nodes = new Map<string, {
-  nodeId: string;
-  projectId: string;
-  ownerToken: string;
-  status: 'active' | 'revoked';
-  viewerCount: number;
-  createdAt: Date;
-}>();
+// Quotas on node creation and viewer-token issuance, as "<count>/<seconds>"
+const nodeCreateIpLimiter = new RateLimiter('node creation per IP', limitFromEnv('NODE_CREATE_LIMIT_PER_IP', '20/3600'));
+const nodeCreateProjectLimiter = new RateLimiter(
+  'node creation per project',
+  limitFromEnv('NODE_CREATE_LIMIT_PER_PROJECT', '100/3600')
+);
+const viewerTokenIpLimiter = new RateLimiter('viewer tokens per IP', limitFromEnv('VIEWER_TOKEN_LIMIT_PER_IP', '60/60'));
+const viewerTokenProjectLimiter = new RateLimiter(
+  'viewer tokens per project',
+  limitFromEnv('VIEWER_TOKEN_LIMIT_PER_PROJECT', '300/60')
+);
+
+const MAX_DISPLAY_NAME_LENGTH = 64;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Webhooks a single project may register
+const MAX_WEBHOOKS_PER_PROJECT = Number(process.env.MAX_WEBHOOKS_PER_PROJECT) || 10;
+
+// Most events returned by one GET /nodes/:nodeId/events request
+const MAX_AUDIT_EVENTS = 1000;
+
+// Whether `claims` belong to a viewer token the owner has kicked
+function isBlockedViewer(claims: NodeTokenClaims): Promise<boolean> {
+  if (claims.type !== 'viewer' || !claims.sub) return Promise.resolve(false);
+  return nodeStore.isViewerBlocked(claims.nodeId, claims.sub);
+}
+
+// Express 4 doesn't catch rejected promises from handlers; forward them to next()
+function asyncHandler(fn: (req: Request, res: Response, next: NextFunction) => Promise<unknown>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    fn(req, res, next).catch(next);
+  };
+}
 
 // Create a new node
-router.post('/nodes', (req, res) => {
-  const { projectId } = req.body;
+router.post('/nodes', limitByIp(nodeCreateIpLimiter), asyncHandler(async (req, res) => {
+  const { projectId, maxViewers = MAX_VIEWERS_LIMIT } = req.body;
 
   if (!projectId) {
     return res.status(400).json({ error: 'projectId required' });
   }
 
+  if (!Number.isInteger(maxViewers) || maxViewers < 1 || maxViewers > MAX_VIEWERS_LIMIT) {
+    return res.status(400).json({ error: `maxViewers must be an integer between 1 and ${MAX_VIEWERS_LIMIT}` });
+  }
+
+  if (!checkQuota(res, nodeCreateProjectLimiter, String(projectId))) return;
+
   const nodeId = uuidv4();
-  const ownerToken = jwt.sign(
-    { type: 'owner', nodeId, projectId },
-    JWT_SECRET,
-    { expiresIn: TOKEN_EXPIRY }
-  );
+  res.locals.nodeId = nodeId;
+  const subject = `owner:${nodeId}`;
+  const ownerToken = signNodeToken('owner', nodeId, projectId, { sub: subject });
 
-  nodes.set(nodeId, {
+  const node = await nodeStore.create({
     nodeId,
     projectId,
     ownerToken,
     status: 'active',
     viewerCount: 0,
+    maxViewers,
+    reservations: {},
     createdAt: new Date(),
+    liveness: 'idle',
+    lastSeenAt: null,
   });
 
+  broadcastToProject(projectId, { type: 'node-created', projectId, node: toNodeSummary(node) });
+  audit('node.created', nodeId, { subject, remoteAddress: req.ip, details: { projectId, maxViewers } });
+  emitWebhook('node.created', nodeId, { node: toNodeSummary(node) });
+  res.locals.log.info('Node created', { nodeId, projectId, maxViewers });
+
   res.json({ nodeId, ownerToken });
-});
+}));
 
-// Get viewer token
-router.post('/nodes/:nodeId/viewer-token', (req, res) => {
+// Get viewer token, reserving a slot if one is free. Without a reservation the
+// viewer is queued on join until a slot opens up. Optional `displayName` and
+// `color` identify the viewer in presence updates.
+router.post('/nodes/:nodeId/viewer-token', limitByIp(viewerTokenIpLimiter), asyncHandler(async (req, res) => {
   const { nodeId } = req.params;
-  const node = nodes.get(nodeId);
+  const { displayName, color } = req.body || {};
+
+  if (
+    displayName !== undefined &&
+    (typeof displayName !== 'string' || !displayName.trim() || displayName.trim().length > MAX_DISPLAY_NAME_LENGTH)
+  ) {
+    return res.status(400).json({ error: `displayName must be a non-empty string of at most ${MAX_DISPLAY_NAME_LENGTH} characters` });
+  }
+
+  if (color !== undefined && (typeof color !== 'string' || !COLOR_PATTERN.test(color))) {
+    return res.status(400).json({ error: 'color must be a hex color like #3b82f6' });
+  }
+
+  const node = await nodeStore.get(nodeId);
 
   if (!node) {
     return res.status(404).json({ error: 'Node not found' });
@@ -57,48 +135,235 @@ router.post('/nodes/:nodeId/viewer-token', (req, res) => {
     return res.status(403).json({ error: 'Node has been revoked' });
   }
 
-  if (node.viewerCount >= 3) {
-    return res.status(403).json({ error: 'Max viewers reached' });
+  if (!checkQuota(res, viewerTokenProjectLimiter, node.projectId)) return;
+
+  const slotId = uuidv4();
+  const reservationExpiresAt = Date.now() + RESERVATION_TTL_MS;
+  const reserved = await nodeStore.reserveViewerSlot(nodeId, slotId, reservationExpiresAt);
+
+  const subject = `viewer:${uuidv4()}`;
+  const viewerToken = signNodeToken('viewer', nodeId, node.projectId, {
+    sub: subject,
+    ...(displayName !== undefined ? { name: displayName.trim() } : {}),
+    ...(color !== undefined ? { color: color.toLowerCase() } : {}),
+    ...(reserved ? { slotId } : {}),
+  });
+  audit('viewer.token_issued', nodeId, { subject, remoteAddress: req.ip, details: { reserved } });
+
+  res.json({ viewerToken, reserved, reservationExpiresAt: reserved ? reservationExpiresAt : null });
+}));
+
+// Swap a still-valid owner or viewer token for a fresh one of the same type
+router.post('/nodes/:nodeId/refresh', requireNodeToken('owner', 'viewer'), asyncHandler(async (req, res) => {
+  const { nodeId } = req.params;
+  const claims: NodeTokenClaims = res.locals.claims;
+
+  const node = await nodeStore.get(nodeId);
+
+  if (!node) {
+    return res.status(404).json({ error: 'Node not found' });
   }
 
-  const viewerToken = jwt.sign(
-    { type: 'viewer', nodeId, projectId: node.projectId },
-    JWT_SECRET,
-    { expiresIn: TOKEN_EXPIRY }
-  );
+  if (node.status === 'revoked') {
+    return res.status(403).json({ error: 'Node has been revoked', code: 'revoked' });
+  }
 
-  res.json({ viewerToken });
-});
+  if (await isBlockedViewer(claims)) {
+    return res.status(403).json({ error: 'This viewer token was removed by the node owner', code: 'blocked' });
+  }
+
+  const { sub, name, color } = claims;
+  const refreshed = signNodeToken(claims.type, nodeId, node.projectId, {
+    ...(sub ? { sub } : {}),
+    ...(name ? { name } : {}),
+    ...(color ? { color } : {}),
+  });
 
-// Revoke node
-router.post('/nodes/:nodeId/revoke', (req, res) => {
+  res.json({ token: refreshed, expiresAt: tokenExpiresAt(refreshed) });
+}));
+
+// Short-lived STUN/TURN config for the owner or a viewer of the node
+router.get('/nodes/:nodeId/ice-servers', requireNodeToken('owner', 'viewer'), asyncHandler(async (req, res) => {
   const { nodeId } = req.params;
-  const node = nodes.get(nodeId);
+  const claims: NodeTokenClaims = res.locals.claims;
+
+  const node = await nodeStore.get(nodeId);
+
+  if (!node || node.status === 'revoked' || (await isBlockedViewer(claims))) {
+    return res.status(404).json({ error: 'Node not available' });
+  }
+
+  res.json(getIceServers(`${nodeId}:${claims.type}`, claims.exp));
+}));
+
+// Revoke node (owner only)
+router.post('/nodes/:nodeId/revoke', requireOwner, asyncHandler(async (req, res) => {
+  const { nodeId } = req.params;
+  const node = await nodeStore.updateStatus(nodeId, 'revoked');
 
   if (!node) {
     return res.status(404).json({ error: 'Node not found' });
   }
 
-  node.status = 'revoked';
+  revokeNodeConnections(nodeId);
+  broadcastToProject(node.projectId, { type: 'node-revoked', projectId: node.projectId, nodeId });
+  audit('node.revoked', nodeId, { subject: tokenSubject(res.locals.claims), remoteAddress: req.ip });
+  emitWebhook('node.revoked', nodeId);
+  res.locals.log.info('Node revoked', { nodeId });
+
   res.json({ success: true });
-});
+}));
+
+// Who is watching (owner only); the publisher also receives this as `viewers` messages
+router.get('/nodes/:nodeId/viewers', requireOwner, asyncHandler(async (req, res) => {
+  res.json({ viewers: await nodeStore.listViewers(req.params.nodeId) });
+}));
 
-// Get node info (for debugging)
-router.get('/nodes/:nodeId', (req, res) => {
+// Disconnect one viewer and block its token from joining, resuming or refreshing (owner only)
+router.post('/nodes/:nodeId/viewers/:peerId/kick', requireOwner, asyncHandler(async (req, res) => {
+  const { nodeId, peerId } = req.params;
+  const viewers = await nodeStore.listViewers(nodeId);
+
+  if (!viewers.some((viewer) => viewer.peerId === peerId) || (await kickViewer(nodeId, peerId)) === 'not_found') {
+    return res.status(404).json({ error: 'Viewer not found' });
+  }
+
+  audit('viewer.kicked', nodeId, {
+    subject: tokenSubject(res.locals.claims),
+    remoteAddress: req.ip,
+    details: { peerId },
+  });
+  res.locals.log.info('Viewer kicked by owner', { nodeId, peerId });
+
+  res.json({ success: true });
+}));
+
+// Get node info (owner only)
+router.get('/nodes/:nodeId', requireOwner, asyncHandler(async (req, res) => {
   const { nodeId } = req.params;
-  const node = nodes.get(nodeId);
+  const node = await nodeStore.get(nodeId);
 
   if (!node) {
     return res.status(404).json({ error: 'Node not found' });
   }
 
-  res.json({
-    nodeId: node.nodeId,
-    projectId: node.projectId,
-    status: node.status,
-    viewerCount: node.viewerCount,
-    createdAt: node.createdAt,
+  res.json(toNodeSummary(node));
+}));
+
+// Audit trail for a node (owner only), oldest first. `since` takes an ISO date or ms since epoch;
+// `format=jsonl` downloads the events as JSON Lines for log pipelines.
+router.get('/nodes/:nodeId/events', requireOwner, asyncHandler(async (req, res) => {
+  const { nodeId } = req.params;
+  const { since, limit, format } = req.query;
+
+  let sinceDate: Date | undefined;
+  if (since !== undefined) {
+    sinceDate = /^\d+$/.test(String(since)) ? new Date(Number(since)) : new Date(String(since));
+    if (Number.isNaN(sinceDate.getTime())) {
+      return res.status(400).json({ error: 'since must be an ISO date or milliseconds since epoch' });
+    }
+  }
+
+  const count = limit === undefined ? MAX_AUDIT_EVENTS : Number(limit);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_AUDIT_EVENTS) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_AUDIT_EVENTS}` });
+  }
+
+  const events = await auditLog.listByNode(nodeId, { since: sinceDate, limit: count });
+
+  if (format === 'jsonl') {
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${nodeId}-events.jsonl"`);
+    return res.send(events.map((event) => JSON.stringify(event) + '\n').join(''));
+  }
+
+  res.json({ events });
+}));
+
+// List a project's nodes so collaborators on the same canvas can discover them
+router.get('/projects/:projectId/nodes', asyncHandler(async (req, res) => {
+  const nodes = await nodeStore.listByProject(req.params.projectId);
+
+  res.json({ nodes: nodes.map(toNodeSummary) });
+}));
+
+// Register a webhook for a project's node events (owner of any node in the project).
+// `events` defaults to all of them; the signing secret is only returned here.
+router.post('/projects/:projectId/webhooks', requireProjectOwner, asyncHandler(async (req, res) => {
+  const { projectId } = req.params;
+  const { url, events = WEBHOOK_EVENTS } = req.body;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(String(url));
+  } catch (err) {
+    return res.status(400).json({ error: 'url must be an absolute http(s) URL' });
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return res.status(400).json({ error: 'url must be an absolute http(s) URL' });
+  }
+
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    !events.every((event) => WEBHOOK_EVENTS.includes(event))
+  ) {
+    return res.status(400).json({ error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}` });
+  }
+
+  const existing = await webhookStore.listByProject(projectId);
+  if (existing.length >= MAX_WEBHOOKS_PER_PROJECT) {
+    return res.status(409).json({ error: `A project can have at most ${MAX_WEBHOOKS_PER_PROJECT} webhooks` });
+  }
+
+  const webhook = await webhookStore.create({
+    id: uuidv4(),
+    projectId,
+    url: parsed.toString(),
+    events: Array.from(new Set<WebhookEventType>(events)),
+    secret: generateSecret(),
+    createdAt: new Date().toISOString(),
   });
+
+  res.status(201).json(webhook);
+}));
+
+router.get('/projects/:projectId/webhooks', requireProjectOwner, asyncHandler(async (req, res) => {
+  const webhooks = await webhookStore.listByProject(req.params.projectId);
+
+  res.json({ webhooks: webhooks.map(toWebhookSummary) });
+}));
+
+router.delete('/projects/:projectId/webhooks/:webhookId', requireProjectOwner, asyncHandler(async (req, res) => {
+  const webhook = await webhookStore.get(req.params.webhookId);
+
+  if (!webhook || webhook.projectId !== req.params.projectId) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  await webhookStore.delete(webhook.id);
+  res.json({ success: true });
+}));
+
+// Recent deliveries for a webhook, newest first
+router.get('/projects/:projectId/webhooks/:webhookId/deliveries', requireProjectOwner, asyncHandler(async (req, res) => {
+  const webhook = await webhookStore.get(req.params.webhookId);
+
+  if (!webhook || webhook.projectId !== req.params.projectId) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  const limit = req.query.limit === undefined ? MAX_DELIVERIES_PER_WEBHOOK : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERIES_PER_WEBHOOK) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_DELIVERIES_PER_WEBHOOK}` });
+  }
+
+  res.json({ deliveries: await webhookStore.listDeliveries(webhook.id, limit) });
+}));
+
+// Every WebSocket on this instance with its role and node (ADMIN_SECRET bearer)
+router.get('/admin/connections', requireAdmin, (req, res) => {
+  res.json({ instanceId: INSTANCE_ID, connections: listConnections() });
 });
 
-export { router as default, nodes };
+export default router;
@@ -1,30 +1,156 @@
-import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import { WebSocketServer } from 'ws';
 import routes from './routes';
-import { createWebSocketServer } from './websocket';
+import { createWebSocketServer, drainWebSocketServer } from './websocket';
+import { nodeStore } from './store';
+import { auditLog } from './audit';
+import { webhookStore } from './webhooks';
+import { messageBus } from './bus';
+import { Gauge, renderMetrics } from './metrics';
+import { createLogger, requestLogger } from './logger';
 
 dotenv.config();
 
-const app = express();
-const PORT = process.env.PORT || 3001;
+const log = createLogger('server');
 
-app.use(cors());
-app.use(express.json());
+// How long clients get to leave on their own after `server-restarting`
+const SHUTDOWN_DRAIN_TIMEOUT_MS = Number(process.env.SHUTDOWN_DRAIN_TIMEOUT_MS) || 10_000;
+// Reconnect delay suggested to clients in `server-restarting`
+const SHUTDOWN_RECONNECT_DELAY_MS = Number(process.env.SHUTDOWN_RECONNECT_DELAY_MS) || 2_000;
 
-// REST API routes
-app.use(routes);
+export interface SignalingServer {
+  server: Server;
+  wss: WebSocketServer;
+  // Port actually bound, useful when started with port 0
+  port: number;
+  // Drain and close every connection, flush stores and stop listening
+  stop(): Promise<void>;
+}
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+new Gauge('signaling_nodes', 'Nodes in the store, by status and liveness', async () => {
+  const counts = new Map<string, number>();
+  for (const node of await nodeStore.list()) {
+    const key = `${node.status}:${node.liveness}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return Array.from(counts.entries()).map(([key, count]) => {
+    const [status, liveness] = key.split(':');
+    return [{ status, liveness }, count];
+  });
 });
 
-const server = app.listen(PORT, () => {
-  console.log(`Signaling server running on port ${PORT}`);
-});
+function createApp(isDraining: () => boolean) {
+  const app = express();
+
+  // Behind a reverse proxy, rate limits key on the client address from X-Forwarded-For
+  if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', true);
+  }
+
+  app.use(requestLogger);
+  app.use(cors());
+  app.use(express.json());
+
+  // REST API routes
+  app.use(routes);
+
+  // Health check; reports 503 while draining so load balancers stop sending traffic
+  app.get('/health', (req, res) => {
+    if (isDraining()) {
+      return res.status(503).json({ status: 'draining', timestamp: new Date().toISOString() });
+    }
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  // Prometheus scrape target; set METRICS_TOKEN to require `Authorization: Bearer <token>`
+  app.get('/metrics', (req, res, next) => {
+    const token = process.env.METRICS_TOKEN;
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      return res.status(401).json({ error: 'Metrics token required' });
+    }
+
+    renderMetrics()
+      .then((body) => res.type('text/plain; version=0.0.4').send(body))
+      .catch(next);
+  });
+
+  // Errors thrown by handlers; logged with the request id instead of Express's bare stack trace
+  app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+    res.locals.log.error('Request failed', { method: req.method, path: req.path, err });
+    if (res.headersSent) return next(err);
+    res.status(500).json({ error: 'Internal error' });
+  });
+
+  return app;
+}
+
+export async function startServer(options: { port?: number } = {}): Promise<SignalingServer> {
+  let draining = false;
+  const app = createApp(() => draining);
+
+  // Sockets don't survive a restart, so drop any viewer counts and liveness the store kept
+  await nodeStore.resetConnectionState().catch((err) => {
+    log.error('Failed to reconcile node state', { err });
+  });
+
+  const server = await new Promise<Server>((resolve, reject) => {
+    const listening = app.listen(options.port ?? (Number(process.env.PORT) || 3001), () => resolve(listening));
+    listening.once('error', reject);
+  });
+  const { port } = server.address() as AddressInfo;
+  log.info('Signaling server running', { port });
+
+  // WebSocket server
+  const wss = createWebSocketServer(server);
+
+  let stopping: Promise<void> | null = null;
+  const stop = () => {
+    stopping = stopping || (async () => {
+      draining = true;
+      log.info('Shutting down: draining connections');
+
+      // Stop accepting connections; resolves once in-flight HTTP requests finish
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+
+      await drainWebSocketServer(wss, {
+        timeoutMs: SHUTDOWN_DRAIN_TIMEOUT_MS,
+        reconnectDelayMs: SHUTDOWN_RECONNECT_DELAY_MS,
+      });
+
+      await Promise.all([nodeStore.flush(), auditLog.flush(), webhookStore.flush()]);
+      await messageBus.close();
+      await closed;
+      log.info('Shutdown complete');
+    })();
+    return stopping;
+  };
 
-// WebSocket server
-const wss = createWebSocketServer(server);
+  return { server, wss, port, stop };
+}
 
-export { wss };
+// Listen only when run directly (`tsx src/server.ts`, `node dist/server.js`), not when imported
+if (require.main === module) {
+  startServer()
+    .then(({ stop }) => {
+      const shutdown = (signal: NodeJS.Signals) => {
+        log.info('Received signal', { signal });
+        stop().then(
+          () => process.exit(0),
+          (err) => {
+            log.error('Shutdown failed', { err });
+            process.exit(1);
+          }
+        );
+      };
+      process.once('SIGTERM', shutdown);
+      process.once('SIGINT', shutdown);
+    })
+    .catch((err) => {
+      log.error('Failed to start signaling server', { err });
+      process.exit(1);
+    });
+}
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '../logger';
+import { MemoryNodeStore } from './memory';
+import type { NodeLiveness, NodeRecord, NodeRecordStatus } from './index';
+
+const log = createLogger('store');
+
+// A node record as saved to disk, with its blocked viewer subjects alongside
+type SavedNode = NodeRecord & { blockedViewers?: string[] };
+
+// Memory store that snapshots every mutation to a JSON file and reloads it on boot.
+// Viewer lists aren't saved: no viewer is connected after a restart.
+export class FileNodeStore extends MemoryNodeStore {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const records = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as SavedNode[];
+    for (const { blockedViewers, ...record } of records) {
+      if (blockedViewers && blockedViewers.length > 0) {
+        this.blocked.set(record.nodeId, new Set(blockedViewers));
+      }
+      this.nodes.set(record.nodeId, {
+        ...record,
+        createdAt: new Date(record.createdAt),
+        // Records written before per-node limits used the old fixed cap of 3
+        maxViewers: record.maxViewers ?? 3,
+        reservations: record.reservations || {},
+        liveness: record.liveness || 'idle',
+        lastSeenAt: record.lastSeenAt ? new Date(record.lastSeenAt) : null,
+      });
+    }
+    log.info('Loaded nodes', { count: records.length, path: this.filePath });
+  }
+
+  // Writes are chained so snapshots land in order; each one replaces the file atomically
+  private persist(): Promise<void> {
+    const records: SavedNode[] = Array.from(this.nodes.values()).map((node) => {
+      const blocked = this.blocked.get(node.nodeId);
+      return blocked ? { ...node, blockedViewers: Array.from(blocked) } : node;
+    });
+    const snapshot = JSON.stringify(records, null, 2);
+    const tmpPath = `${this.filePath}.tmp`;
+
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tmpPath, snapshot);
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+    return this.writing;
+  }
+
+  override async create(node: NodeRecord): Promise<NodeRecord> {
+    const created = await super.create(node);
+    await this.persist();
+    return created;
+  }
+
+  override async updateStatus(nodeId: string, status: NodeRecordStatus): Promise<NodeRecord | undefined> {
+    const updated = await super.updateStatus(nodeId, status);
+    if (updated) await this.persist();
+    return updated;
+  }
+
+  override async updateLiveness(nodeId: string, liveness: NodeLiveness, lastSeenAt?: Date): Promise<NodeRecord | undefined> {
+    const updated = await super.updateLiveness(nodeId, liveness, lastSeenAt);
+    if (updated) await this.persist();
+    return updated;
+  }
+
+  override async reserveViewerSlot(nodeId: string, slotId: string, expiresAt: number): Promise<boolean> {
+    const reserved = await super.reserveViewerSlot(nodeId, slotId, expiresAt);
+    if (reserved) await this.persist();
+    return reserved;
+  }
+
+  override async incrementViewers(nodeId: string, slotId?: string): Promise<number | null> {
+    const count = await super.incrementViewers(nodeId, slotId);
+    if (count !== null) await this.persist();
+    return count;
+  }
+
+  override async decrementViewers(nodeId: string): Promise<number | null> {
+    const count = await super.decrementViewers(nodeId);
+    if (count !== null) await this.persist();
+    return count;
+  }
+
+  override async suspendViewer(nodeId: string, slotId: string, expiresAt: number): Promise<number | null> {
+    const count = await super.suspendViewer(nodeId, slotId, expiresAt);
+    if (count !== null) await this.persist();
+    return count;
+  }
+
+  override async flush(): Promise<void> {
+    await this.writing.catch(() => {});
+  }
+
+  override async blockViewer(nodeId: string, subject: string): Promise<void> {
+    await super.blockViewer(nodeId, subject);
+    await this.persist();
+  }
+
+  override async resetConnectionState(): Promise<void> {
+    await super.resetConnectionState();
+    await this.persist();
+  }
+}
@@ -0,0 +1,87 @@
+import path from 'path';
+import { ProjectNode, ViewerInfo } from 'tldraw-browser-canvas-protocol';
+import { MemoryNodeStore } from './memory';
+import { FileNodeStore } from './file';
+import { RedisNodeStore } from './redis';
+
+export type NodeRecordStatus = 'active' | 'revoked';
+
+// Whether the node's publisher is heartbeating: never seen, currently live, or gone quiet
+export type NodeLiveness = 'idle' | 'live' | 'offline';
+
+export interface NodeRecord {
+  nodeId: string;
+  projectId: string;
+  ownerToken: string;
+  status: NodeRecordStatus;
+  viewerCount: number;
+  maxViewers: number;
+  // Viewer slots held for issued tokens that haven't joined yet: slotId -> expiry (ms)
+  reservations: Record<string, number>;
+  createdAt: Date;
+  liveness: NodeLiveness;
+  lastSeenAt: Date | null;
+}
+
+// Public view of a node in its wire format: everything except the owner token and
+// reservation ids, with dates as ISO strings
+export type NodeSummary = ProjectNode;
+
+export function toNodeSummary(node: NodeRecord): NodeSummary {
+  const { ownerToken, reservations, createdAt, lastSeenAt, ...summary } = node;
+  return {
+    ...summary,
+    createdAt: createdAt.toISOString(),
+    lastSeenAt: lastSeenAt ? lastSeenAt.toISOString() : null,
+  };
+}
+
+export interface NodeStore {
+  create(node: NodeRecord): Promise<NodeRecord>;
+  get(nodeId: string): Promise<NodeRecord | undefined>;
+  updateStatus(nodeId: string, status: NodeRecordStatus): Promise<NodeRecord | undefined>;
+  updateLiveness(nodeId: string, liveness: NodeLiveness, lastSeenAt?: Date): Promise<NodeRecord | undefined>;
+  // Hold a slot until `expiresAt`; false if the node is missing or full
+  reserveViewerSlot(nodeId: string, slotId: string, expiresAt: number): Promise<boolean>;
+  // Admit a viewer, consuming its reservation if it holds one. Returns the new count,
+  // or null if the node is missing or every slot is taken by viewers or other reservations
+  incrementViewers(nodeId: string, slotId?: string): Promise<number | null>;
+  decrementViewers(nodeId: string): Promise<number | null>;
+  // Turn a connected viewer back into a reservation held until `expiresAt`, so it can
+  // reconnect into the same slot. Returns the new count, or null if the node is missing
+  suspendViewer(nodeId: string, slotId: string, expiresAt: number): Promise<number | null>;
+  // Who is watching: connected viewers, and dropped ones until their resume grace period ends.
+  // Entries are replaced by peerId.
+  setViewer(nodeId: string, viewer: ViewerInfo): Promise<void>;
+  removeViewer(nodeId: string, peerId: string): Promise<void>;
+  // Oldest join first
+  listViewers(nodeId: string): Promise<ViewerInfo[]>;
+  // Viewer token subjects kicked by the owner; their tokens can't join, resume or refresh again
+  blockViewer(nodeId: string, subject: string): Promise<void>;
+  isViewerBlocked(nodeId: string, subject: string): Promise<boolean>;
+  listByProject(projectId: string): Promise<NodeRecord[]>;
+  list(): Promise<NodeRecord[]>;
+  // No sockets survive a restart: zero viewer counts, empty viewer lists and mark live nodes offline
+  resetConnectionState(): Promise<void>;
+  // Resolve once every write so far has been persisted
+  flush(): Promise<void>;
+}
+
+// NODE_STORE=memory (default) | file | redis; NODE_STORE_PATH sets the file location.
+// Only the redis store can be shared by several signaling instances.
+export function createNodeStore(): NodeStore {
+  const kind = process.env.NODE_STORE || 'memory';
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryNodeStore();
+    case 'file':
+      return new FileNodeStore(process.env.NODE_STORE_PATH || path.join(process.cwd(), 'data', 'nodes.json'));
+    case 'redis':
+      return new RedisNodeStore();
+    default:
+      throw new Error(`Unknown NODE_STORE: ${kind}`);
+  }
+}
+
+export const nodeStore = createNodeStore();
@@ -0,0 +1,134 @@
+import type { ViewerInfo } from 'tldraw-browser-canvas-protocol';
+import type { NodeLiveness, NodeRecord, NodeRecordStatus, NodeStore } from './index';
+
+function clone(node: NodeRecord): NodeRecord {
+  return { ...node, reservations: { ...node.reservations } };
+}
+
+export class MemoryNodeStore implements NodeStore {
+  protected nodes = new Map<string, NodeRecord>();
+  protected viewers = new Map<string, Map<string, ViewerInfo>>();
+  protected blocked = new Map<string, Set<string>>();
+
+  async create(node: NodeRecord): Promise<NodeRecord> {
+    this.nodes.set(node.nodeId, clone(node));
+    return clone(node);
+  }
+
+  async get(nodeId: string): Promise<NodeRecord | undefined> {
+    const node = this.nodes.get(nodeId);
+    return node ? clone(node) : undefined;
+  }
+
+  async updateStatus(nodeId: string, status: NodeRecordStatus): Promise<NodeRecord | undefined> {
+    const node = this.nodes.get(nodeId);
+    if (!node) return undefined;
+
+    node.status = status;
+    return clone(node);
+  }
+
+  async updateLiveness(nodeId: string, liveness: NodeLiveness, lastSeenAt?: Date): Promise<NodeRecord | undefined> {
+    const node = this.nodes.get(nodeId);
+    if (!node) return undefined;
+
+    node.liveness = liveness;
+    if (lastSeenAt) node.lastSeenAt = lastSeenAt;
+    return clone(node);
+  }
+
+  // Connected viewers plus unexpired reservations, optionally ignoring the caller's own reservation
+  private occupiedSlots(node: NodeRecord, exceptSlotId?: string): number {
+    const now = Date.now();
+    for (const [slotId, expiresAt] of Object.entries(node.reservations)) {
+      if (expiresAt <= now) delete node.reservations[slotId];
+    }
+
+    const held = Object.keys(node.reservations).filter((slotId) => slotId !== exceptSlotId).length;
+    return node.viewerCount + held;
+  }
+
+  async reserveViewerSlot(nodeId: string, slotId: string, expiresAt: number): Promise<boolean> {
+    const node = this.nodes.get(nodeId);
+    if (!node || this.occupiedSlots(node) >= node.maxViewers) return false;
+
+    node.reservations[slotId] = expiresAt;
+    return true;
+  }
+
+  async incrementViewers(nodeId: string, slotId?: string): Promise<number | null> {
+    const node = this.nodes.get(nodeId);
+    if (!node || this.occupiedSlots(node, slotId) >= node.maxViewers) return null;
+
+    if (slotId) delete node.reservations[slotId];
+    node.viewerCount++;
+    return node.viewerCount;
+  }
+
+  async decrementViewers(nodeId: string): Promise<number | null> {
+    const node = this.nodes.get(nodeId);
+    if (!node) return null;
+
+    node.viewerCount = Math.max(0, node.viewerCount - 1);
+    return node.viewerCount;
+  }
+
+  async suspendViewer(nodeId: string, slotId: string, expiresAt: number): Promise<number | null> {
+    const node = this.nodes.get(nodeId);
+    if (!node) return null;
+
+    node.viewerCount = Math.max(0, node.viewerCount - 1);
+    node.reservations[slotId] = expiresAt;
+    return node.viewerCount;
+  }
+
+  async setViewer(nodeId: string, viewer: ViewerInfo): Promise<void> {
+    const viewers = this.viewers.get(nodeId) || new Map<string, ViewerInfo>();
+    viewers.set(viewer.peerId, { ...viewer });
+    this.viewers.set(nodeId, viewers);
+  }
+
+  async removeViewer(nodeId: string, peerId: string): Promise<void> {
+    const viewers = this.viewers.get(nodeId);
+    if (!viewers) return;
+
+    viewers.delete(peerId);
+    if (viewers.size === 0) this.viewers.delete(nodeId);
+  }
+
+  async listViewers(nodeId: string): Promise<ViewerInfo[]> {
+    return Array.from(this.viewers.get(nodeId)?.values() || [])
+      .map((viewer) => ({ ...viewer }))
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+  }
+
+  async blockViewer(nodeId: string, subject: string): Promise<void> {
+    const blocked = this.blocked.get(nodeId) || new Set<string>();
+    blocked.add(subject);
+    this.blocked.set(nodeId, blocked);
+  }
+
+  async isViewerBlocked(nodeId: string, subject: string): Promise<boolean> {
+    return this.blocked.get(nodeId)?.has(subject) || false;
+  }
+
+  async listByProject(projectId: string): Promise<NodeRecord[]> {
+    return Array.from(this.nodes.values())
+      .filter((node) => node.projectId === projectId)
+      .map(clone);
+  }
+
+  async list(): Promise<NodeRecord[]> {
+    return Array.from(this.nodes.values()).map(clone);
+  }
+
+  async flush(): Promise<void> {}
+
+  async resetConnectionState(): Promise<void> {
+    this.viewers.clear();
+    for (const node of this.nodes.values()) {
+      node.viewerCount = 0;
+      if (node.liveness === 'live') node.liveness = 'offline';
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { Result } from 'ioredis';
+import type { ViewerInfo } from 'tldraw-browser-canvas-protocol';
+import { INSTANCE_ID } from '../instance';
+import { REDIS_PREFIX, createRedisClient } from '../redis';
+import { createLogger } from '../logger';
+import type { NodeLiveness, NodeRecord, NodeRecordStatus, NodeStore } from './index';
+
+const log = createLogger('store');
+
+declare module 'ioredis' {
+  interface RedisCommander<Context> {
+    loadNode(key: string, instancePrefix: string): Result<[string[], string[], number] | null, Context>;
+    reserveSlot(key: string, instancePrefix: string, now: number, slotId: string, expiresAt: number): Result<number, Context>;
+    admitViewer(key: string, instancePrefix: string, now: number, instanceId: string, slotId: string): Result<number, Context>;
+    releaseViewer(key: string, instancePrefix: string, instanceId: string): Result<number, Context>;
+    suspendViewer(
+      key: string,
+      instancePrefix: string,
+      instanceId: string,
+      slotId: string,
+      expiresAt: number
+    ): Result<number, Context>;
+  }
+}
+
+// An instance's viewer counts are dropped this long after it stops refreshing its presence key
+const INSTANCE_TTL_MS = 15_000;
+
+// Viewer counts are kept per instance (node:<id>:viewers, instanceId -> count) so a
+// crashed instance's viewers stop counting once its presence key expires.
+const SLOT_HELPERS = `
+local function viewers(node, instancePrefix)
+  local total = 0
+  local counts = redis.call('HGETALL', node .. ':viewers')
+  for i = 1, #counts, 2 do
+    if redis.call('EXISTS', instancePrefix .. counts[i]) == 1 then
+      total = total + tonumber(counts[i + 1])
+    else
+      redis.call('HDEL', node .. ':viewers', counts[i])
+    end
+  end
+  return total
+end
+
+local function occupied(node, instancePrefix, now, exceptSlot)
+  local held = 0
+  local reservations = redis.call('HGETALL', node .. ':reservations')
+  for i = 1, #reservations, 2 do
+    if tonumber(reservations[i + 1]) <= now then
+      redis.call('HDEL', node .. ':reservations', reservations[i])
+    elseif reservations[i] ~= exceptSlot then
+      held = held + 1
+    end
+  end
+  return viewers(node, instancePrefix) + held
+end
+`;
+
+const LOAD_NODE = `${SLOT_HELPERS}
+if redis.call('EXISTS', KEYS[1]) == 0 then return false end
+return { redis.call('HGETALL', KEYS[1]), redis.call('HGETALL', KEYS[1] .. ':reservations'), viewers(KEYS[1], ARGV[1]) }
+`;
+
+const RESERVE_SLOT = `${SLOT_HELPERS}
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+local maxViewers = tonumber(redis.call('HGET', KEYS[1], 'maxViewers'))
+if occupied(KEYS[1], ARGV[1], tonumber(ARGV[2]), '') >= maxViewers then return 0 end
+redis.call('HSET', KEYS[1] .. ':reservations', ARGV[3], ARGV[4])
+return 1
+`;
+
+const ADMIT_VIEWER = `${SLOT_HELPERS}
+if redis.call('EXISTS', KEYS[1]) == 0 then return -1 end
+local maxViewers = tonumber(redis.call('HGET', KEYS[1], 'maxViewers'))
+if occupied(KEYS[1], ARGV[1], tonumber(ARGV[2]), ARGV[4]) >= maxViewers then return -1 end
+if ARGV[4] ~= '' then redis.call('HDEL', KEYS[1] .. ':reservations', ARGV[4]) end
+redis.call('HINCRBY', KEYS[1] .. ':viewers', ARGV[3], 1)
+return viewers(KEYS[1], ARGV[1])
+`;
+
+const RELEASE_VIEWER = `${SLOT_HELPERS}
+if redis.call('EXISTS', KEYS[1]) == 0 then return -1 end
+if tonumber(redis.call('HGET', KEYS[1] .. ':viewers', ARGV[2]) or '0') > 0 then
+  redis.call('HINCRBY', KEYS[1] .. ':viewers', ARGV[2], -1)
+end
+return viewers(KEYS[1], ARGV[1])
+`;
+
+const SUSPEND_VIEWER = `${SLOT_HELPERS}
+if redis.call('EXISTS', KEYS[1]) == 0 then return -1 end
+if tonumber(redis.call('HGET', KEYS[1] .. ':viewers', ARGV[2]) or '0') > 0 then
+  redis.call('HINCRBY', KEYS[1] .. ':viewers', ARGV[2], -1)
+end
+redis.call('HSET', KEYS[1] .. ':reservations', ARGV[3], ARGV[4])
+return viewers(KEYS[1], ARGV[1])
+`;
+
+function toHash(flat: string[]): Record<string, string> {
+  const hash: Record<string, string> = {};
+  for (let i = 0; i < flat.length; i += 2) {
+    hash[flat[i]] = flat[i + 1];
+  }
+  return hash;
+}
+
+// Node store shared by every signaling instance. Slot bookkeeping runs in Lua
+// scripts so concurrent joins on different instances can't overfill a node.
+export class RedisNodeStore implements NodeStore {
+  private redis = createRedisClient('store');
+  private instancePrefix = `${REDIS_PREFIX}instance:`;
+
+  constructor() {
+    this.redis.defineCommand('loadNode', { numberOfKeys: 1, lua: LOAD_NODE });
+    this.redis.defineCommand('reserveSlot', { numberOfKeys: 1, lua: RESERVE_SLOT });
+    this.redis.defineCommand('admitViewer', { numberOfKeys: 1, lua: ADMIT_VIEWER });
+    this.redis.defineCommand('releaseViewer', { numberOfKeys: 1, lua: RELEASE_VIEWER });
+    this.redis.defineCommand('suspendViewer', { numberOfKeys: 1, lua: SUSPEND_VIEWER });
+
+    const refreshPresence = () => {
+      this.redis.set(this.instancePrefix + INSTANCE_ID, Date.now(), 'PX', INSTANCE_TTL_MS).catch((err) => {
+        log.error('Failed to refresh instance presence', { instanceId: INSTANCE_ID, err });
+      });
+    };
+    refreshPresence();
+    setInterval(refreshPresence, INSTANCE_TTL_MS / 3).unref();
+  }
+
+  private nodeKey(nodeId: string): string {
+    return `${REDIS_PREFIX}node:${nodeId}`;
+  }
+
+  private projectKey(projectId: string): string {
+    return `${REDIS_PREFIX}project:${projectId}:nodes`;
+  }
+
+  async create(node: NodeRecord): Promise<NodeRecord> {
+    await this.redis
+      .multi()
+      .hset(this.nodeKey(node.nodeId), {
+        nodeId: node.nodeId,
+        projectId: node.projectId,
+        ownerToken: node.ownerToken,
+        status: node.status,
+        maxViewers: node.maxViewers,
+        createdAt: node.createdAt.getTime(),
+        liveness: node.liveness,
+        lastSeenAt: node.lastSeenAt ? node.lastSeenAt.getTime() : '',
+      })
+      .sadd(this.projectKey(node.projectId), node.nodeId)
+      .sadd(`${REDIS_PREFIX}nodes`, node.nodeId)
+      .exec();
+
+    return { ...node, viewerCount: 0, reservations: {} };
+  }
+
+  async get(nodeId: string): Promise<NodeRecord | undefined> {
+    const loaded = await this.redis.loadNode(this.nodeKey(nodeId), this.instancePrefix);
+    if (!loaded) return undefined;
+
+    const [fields, reservations, viewerCount] = loaded;
+    const hash = toHash(fields);
+    const now = Date.now();
+
+    return {
+      nodeId: hash.nodeId,
+      projectId: hash.projectId,
+      ownerToken: hash.ownerToken,
+      status: hash.status as NodeRecordStatus,
+      viewerCount,
+      maxViewers: Number(hash.maxViewers),
+      reservations: Object.fromEntries(
+        Object.entries(toHash(reservations))
+          .map(([slotId, expiresAt]): [string, number] => [slotId, Number(expiresAt)])
+          .filter(([, expiresAt]) => expiresAt > now)
+      ),
+      createdAt: new Date(Number(hash.createdAt)),
+      liveness: hash.liveness as NodeLiveness,
+      lastSeenAt: hash.lastSeenAt ? new Date(Number(hash.lastSeenAt)) : null,
+    };
+  }
+
+  async updateStatus(nodeId: string, status: NodeRecordStatus): Promise<NodeRecord | undefined> {
+    if (!(await this.redis.exists(this.nodeKey(nodeId)))) return undefined;
+
+    await this.redis.hset(this.nodeKey(nodeId), 'status', status);
+    return this.get(nodeId);
+  }
+
+  async updateLiveness(nodeId: string, liveness: NodeLiveness, lastSeenAt?: Date): Promise<NodeRecord | undefined> {
+    if (!(await this.redis.exists(this.nodeKey(nodeId)))) return undefined;
+
+    await this.redis.hset(this.nodeKey(nodeId), {
+      liveness,
+      ...(lastSeenAt ? { lastSeenAt: lastSeenAt.getTime() } : {}),
+    });
+    return this.get(nodeId);
+  }
+
+  async reserveViewerSlot(nodeId: string, slotId: string, expiresAt: number): Promise<boolean> {
+    const reserved = await this.redis.reserveSlot(this.nodeKey(nodeId), this.instancePrefix, Date.now(), slotId, expiresAt);
+    return reserved === 1;
+  }
+
+  async incrementViewers(nodeId: string, slotId?: string): Promise<number | null> {
+    const count = await this.redis.admitViewer(
+      this.nodeKey(nodeId),
+      this.instancePrefix,
+      Date.now(),
+      INSTANCE_ID,
+      slotId || ''
+    );
+    return count < 0 ? null : count;
+  }
+
+  async decrementViewers(nodeId: string): Promise<number | null> {
+    const count = await this.redis.releaseViewer(this.nodeKey(nodeId), this.instancePrefix, INSTANCE_ID);
+    return count < 0 ? null : count;
+  }
+
+  async suspendViewer(nodeId: string, slotId: string, expiresAt: number): Promise<number | null> {
+    const count = await this.redis.suspendViewer(this.nodeKey(nodeId), this.instancePrefix, INSTANCE_ID, slotId, expiresAt);
+    return count < 0 ? null : count;
+  }
+
+  // Viewer entries remember which instance holds the viewer, so entries from a crashed
+  // instance disappear with its presence key, like its viewer counts
+  async setViewer(nodeId: string, viewer: ViewerInfo): Promise<void> {
+    await this.redis.hset(`${this.nodeKey(nodeId)}:roster`, viewer.peerId, JSON.stringify({ ...viewer, instanceId: INSTANCE_ID }));
+  }
+
+  async removeViewer(nodeId: string, peerId: string): Promise<void> {
+    await this.redis.hdel(`${this.nodeKey(nodeId)}:roster`, peerId);
+  }
+
+  async listViewers(nodeId: string): Promise<ViewerInfo[]> {
+    const entries = Object.values(await this.redis.hgetall(`${this.nodeKey(nodeId)}:roster`))
+      .map((json) => JSON.parse(json) as ViewerInfo & { instanceId: string });
+
+    const instanceIds = Array.from(new Set(entries.map((entry) => entry.instanceId)));
+    const present = await Promise.all(instanceIds.map((id) => this.redis.exists(this.instancePrefix + id)));
+    const live = new Set(instanceIds.filter((_, i) => present[i] === 1));
+
+    return entries
+      .filter((entry) => live.has(entry.instanceId))
+      .map(({ instanceId, ...viewer }) => viewer)
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+  }
+
+  async blockViewer(nodeId: string, subject: string): Promise<void> {
+    await this.redis.sadd(`${this.nodeKey(nodeId)}:blocked`, subject);
+  }
+
+  async isViewerBlocked(nodeId: string, subject: string): Promise<boolean> {
+    return (await this.redis.sismember(`${this.nodeKey(nodeId)}:blocked`, subject)) === 1;
+  }
+
+  async listByProject(projectId: string): Promise<NodeRecord[]> {
+    return this.getMany(await this.redis.smembers(this.projectKey(projectId)));
+  }
+
+  async list(): Promise<NodeRecord[]> {
+    return this.getMany(await this.redis.smembers(`${REDIS_PREFIX}nodes`));
+  }
+
+  private async getMany(nodeIds: string[]): Promise<NodeRecord[]> {
+    const nodes = await Promise.all(nodeIds.map((nodeId) => this.get(nodeId)));
+    return nodes.filter((node): node is NodeRecord => node !== undefined);
+  }
+
+  // Every command is acknowledged before its method resolves, so nothing is buffered here
+  async flush(): Promise<void> {}
+
+  // Other instances keep serving their sockets across our restart, so there is nothing
+  // to reset: counts from our previous run expire with its presence key, and liveness
+  // belongs to whichever instance holds the publisher.
+  async resetConnectionState(): Promise<void> {}
+}
@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+
+// Comma-separated lists, e.g. TURN_URLS=turn:turn.example.com:3478?transport=udp,turns:turn.example.com:5349
+const STUN_URLS = (process.env.STUN_URLS || 'stun:stun.l.google.com:19302').split(',').filter(Boolean);
+const TURN_URLS = (process.env.TURN_URLS || '').split(',').filter(Boolean);
+// Shared with the TURN server (coturn: static-auth-secret with use-auth-secret)
+const TURN_SECRET = process.env.TURN_SECRET || '';
+const TURN_TTL_SECONDS = Number(process.env.TURN_TTL_SECONDS) || 600;
+
+export interface IceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  // Expiry in seconds since epoch, also encoded in the username
+  expiresAt: number;
+}
+
+// TURN REST API scheme: username is "<expiry>:<subject>", password is base64(HMAC-SHA1(secret, username))
+export function createTurnCredentials(subject: string, expiresAt: number, secret: string): TurnCredentials {
+  const username = `${expiresAt}:${subject}`;
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential, expiresAt };
+}
+
+// ICE servers for one caller. Credentials never outlive the token they were issued against.
+export function getIceServers(subject: string, tokenExpiresAt: number): { iceServers: IceServer[]; expiresAt: number | null } {
+  const iceServers: IceServer[] = [];
+  if (STUN_URLS.length > 0) {
+    iceServers.push({ urls: STUN_URLS });
+  }
+
+  if (TURN_URLS.length === 0 || !TURN_SECRET) {
+    return { iceServers, expiresAt: null };
+  }
+
+  const expiresAt = Math.min(Math.floor(Date.now() / 1000) + TURN_TTL_SECONDS, tokenExpiresAt);
+  const { username, credential } = createTurnCredentials(subject, expiresAt, TURN_SECRET);
+  iceServers.push({ urls: TURN_URLS, username, credential });
+
+  return { iceServers, expiresAt: expiresAt * 1000 };
+}
@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { webhookDeliveries } from '../metrics';
+import { createLogger } from '../logger';
+import type { Webhook, WebhookDelivery, WebhookPayload, WebhookStore } from './index';
+
+const log = createLogger('webhooks');
+
+// Attempts per delivery, including the first
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+// Delay before the first retry; doubles with every further attempt
+const WEBHOOK_RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS) || 1000;
+const WEBHOOK_RETRY_MAX_MS = Number(process.env.WEBHOOK_RETRY_MAX_MS) || 5 * 60_000;
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10_000;
+
+// X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">. Signing the
+// timestamp lets receivers reject replays of old deliveries.
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+// Network errors, timeouts, 5xx, 408 and 429 are worth retrying; other 4xx mean the
+// receiver rejected the payload and will keep doing so
+function isRetryable(status: number | null): boolean {
+  return status === null || status >= 500 || status === 408 || status === 429;
+}
+
+async function post(webhook: Webhook, payload: WebhookPayload, deliveryId: string): Promise<number> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const res = await fetch(webhook.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'browser-canvas-webhooks/1',
+      'X-Webhook-Id': webhook.id,
+      'X-Webhook-Event': payload.type,
+      'X-Webhook-Delivery': deliveryId,
+      'X-Webhook-Signature': signPayload(webhook.secret, timestamp, body),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  // Drain the body so the connection can be reused
+  await res.arrayBuffer().catch(() => undefined);
+  return res.status;
+}
+
+async function attempt(store: WebhookStore, webhook: Webhook, payload: WebhookPayload, delivery: WebhookDelivery) {
+  delivery.attempts++;
+  delivery.lastAttemptAt = new Date().toISOString();
+  delivery.nextAttemptAt = null;
+
+  try {
+    delivery.responseStatus = await post(webhook, payload, delivery.id);
+    delivery.error = delivery.responseStatus < 300 ? null : `HTTP ${delivery.responseStatus}`;
+  } catch (err) {
+    delivery.responseStatus = null;
+    delivery.error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!delivery.error) {
+    delivery.status = 'succeeded';
+  } else if (delivery.attempts < WEBHOOK_MAX_ATTEMPTS && isRetryable(delivery.responseStatus)) {
+    const delay = Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (delivery.attempts - 1), WEBHOOK_RETRY_MAX_MS);
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    setTimeout(() => retry(store, webhook, payload, delivery), delay).unref();
+  } else {
+    delivery.status = 'failed';
+    log.warn('Giving up on webhook delivery', {
+      type: payload.type,
+      nodeId: payload.nodeId,
+      webhookId: webhook.id,
+      deliveryId: delivery.id,
+      attempts: delivery.attempts,
+      error: delivery.error,
+    });
+  }
+
+  if (delivery.status !== 'pending') {
+    webhookDeliveries.inc({ event: payload.type, outcome: delivery.status });
+  }
+  await store.saveDelivery({ ...delivery });
+}
+
+// The webhook may have been deleted while the retry was waiting
+async function retry(store: WebhookStore, webhook: Webhook, payload: WebhookPayload, delivery: WebhookDelivery) {
+  try {
+    if (!(await store.get(webhook.id))) return;
+    await attempt(store, webhook, payload, delivery);
+  } catch (err) {
+    log.error('Failed to retry webhook delivery', { nodeId: payload.nodeId, webhookId: webhook.id, deliveryId: delivery.id, err });
+  }
+}
+
+// Send `payload` to `webhook` in the background, retrying with exponential backoff.
+// Retries are timers in this process, so a restart abandons pending ones.
+export function deliver(store: WebhookStore, webhook: Webhook, payload: WebhookPayload) {
+  const delivery: WebhookDelivery = {
+    id: uuidv4(),
+    webhookId: webhook.id,
+    eventId: payload.id,
+    type: payload.type,
+    nodeId: payload.nodeId,
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    lastAttemptAt: null,
+    nextAttemptAt: null,
+    responseStatus: null,
+    error: null,
+  };
+
+  attempt(store, webhook, payload, delivery).catch((err) => {
+    log.error('Failed to deliver webhook', { type: payload.type, nodeId: payload.nodeId, webhookId: webhook.id, err });
+  });
+}
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '../logger';
+import { MemoryWebhookStore } from './memory';
+import type { Webhook, WebhookDelivery } from './index';
+
+const log = createLogger('webhooks');
+
+interface Snapshot {
+  webhooks: Webhook[];
+  deliveries: Record<string, WebhookDelivery[]>;
+}
+
+// Memory store that snapshots every mutation to a JSON file and reloads it on boot
+export class FileWebhookStore extends MemoryWebhookStore {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const snapshot = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Snapshot;
+    for (const webhook of snapshot.webhooks) {
+      this.webhooks.set(webhook.id, webhook);
+    }
+    for (const [webhookId, deliveries] of Object.entries(snapshot.deliveries)) {
+      this.deliveries.set(webhookId, deliveries);
+    }
+    log.info('Loaded webhooks', { count: snapshot.webhooks.length, path: this.filePath });
+  }
+
+  // Writes are chained so snapshots land in order; each one replaces the file atomically
+  private persist(): Promise<void> {
+    const snapshot: Snapshot = {
+      webhooks: Array.from(this.webhooks.values()),
+      deliveries: Object.fromEntries(this.deliveries),
+    };
+    const data = JSON.stringify(snapshot, null, 2);
+    const tmpPath = `${this.filePath}.tmp`;
+
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tmpPath, data);
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+    return this.writing;
+  }
+
+  override async flush(): Promise<void> {
+    await this.writing.catch(() => {});
+  }
+
+  override async create(webhook: Webhook): Promise<Webhook> {
+    const created = await super.create(webhook);
+    await this.persist();
+    return created;
+  }
+
+  override async delete(webhookId: string): Promise<boolean> {
+    const deleted = await super.delete(webhookId);
+    if (deleted) await this.persist();
+    return deleted;
+  }
+
+  override async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await super.saveDelivery(delivery);
+    if (this.webhooks.has(delivery.webhookId)) await this.persist();
+  }
+}
@@ -0,0 +1,124 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { nodeStore } from '../store';
+import { createLogger } from '../logger';
+import { deliver } from './delivery';
+import { MemoryWebhookStore } from './memory';
+import { FileWebhookStore } from './file';
+import { RedisWebhookStore } from './redis';
+
+const log = createLogger('webhooks');
+
+export const WEBHOOK_EVENTS = [
+  'node.created',
+  'node.live',
+  'node.offline',
+  'node.revoked',
+  'viewer.joined',
+  'viewer.left',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface Webhook {
+  id: string;
+  projectId: string;
+  url: string;
+  events: WebhookEventType[];
+  // HMAC-SHA256 key for X-Webhook-Signature; only shown when the webhook is created
+  secret: string;
+  createdAt: string;
+}
+
+// Body POSTed to a webhook's URL
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  projectId: string;
+  nodeId: string;
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One payload sent to one webhook, updated after every attempt
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  type: WebhookEventType;
+  nodeId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  // Set while a retry is scheduled
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+// Webhook as listed by the API: everything but the secret
+export type WebhookSummary = Omit<Webhook, 'secret'>;
+
+export function toWebhookSummary(webhook: Webhook): WebhookSummary {
+  const { secret, ...summary } = webhook;
+  return summary;
+}
+
+// Deliveries kept per webhook; older ones are dropped from the log
+export const MAX_DELIVERIES_PER_WEBHOOK = 100;
+
+export interface WebhookStore {
+  create(webhook: Webhook): Promise<Webhook>;
+  get(webhookId: string): Promise<Webhook | undefined>;
+  listByProject(projectId: string): Promise<Webhook[]>;
+  // Also drops the webhook's delivery log; false if it didn't exist
+  delete(webhookId: string): Promise<boolean>;
+  // Insert or replace a delivery by id
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  // Newest first
+  listDeliveries(webhookId: string, limit?: number): Promise<WebhookDelivery[]>;
+  // Resolve once every write so far has been persisted
+  flush(): Promise<void>;
+}
+
+// WEBHOOK_STORE=memory (default) | file | redis; WEBHOOK_STORE_PATH sets the file location
+export function createWebhookStore(): WebhookStore {
+  const kind = process.env.WEBHOOK_STORE || 'memory';
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryWebhookStore();
+    case 'file':
+      return new FileWebhookStore(process.env.WEBHOOK_STORE_PATH || path.join(process.cwd(), 'data', 'webhooks.json'));
+    case 'redis':
+      return new RedisWebhookStore();
+    default:
+      throw new Error(`Unknown WEBHOOK_STORE: ${kind}`);
+  }
+}
+
+export const webhookStore = createWebhookStore();
+
+// Notify the node's project webhooks subscribed to `type`. Runs in the background;
+// delivery failures end up in the delivery log, not with the caller.
+export function emitWebhook(type: WebhookEventType, nodeId: string, data: Record<string, unknown> = {}) {
+  const createdAt = new Date().toISOString();
+
+  nodeStore.get(nodeId)
+    .then(async (node) => {
+      if (!node) return;
+
+      const webhooks = await webhookStore.listByProject(node.projectId);
+      const payload: WebhookPayload = { id: uuidv4(), type, createdAt, projectId: node.projectId, nodeId, data };
+
+      for (const webhook of webhooks) {
+        if (webhook.events.includes(type)) deliver(webhookStore, webhook, payload);
+      }
+    })
+    .catch((err) => {
+      log.error('Failed to dispatch webhook event', { type, nodeId, err });
+    });
+}
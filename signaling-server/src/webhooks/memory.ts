@@ -0,0 +1,46 @@
+import { MAX_DELIVERIES_PER_WEBHOOK } from './index';
+import type { Webhook, WebhookDelivery, WebhookStore } from './index';
+
+export class MemoryWebhookStore implements WebhookStore {
+  protected webhooks = new Map<string, Webhook>();
+  // Per webhook, oldest first
+  protected deliveries = new Map<string, WebhookDelivery[]>();
+
+  async create(webhook: Webhook): Promise<Webhook> {
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+
+  async get(webhookId: string): Promise<Webhook | undefined> {
+    return this.webhooks.get(webhookId);
+  }
+
+  async listByProject(projectId: string): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).filter((webhook) => webhook.projectId === projectId);
+  }
+
+  async delete(webhookId: string): Promise<boolean> {
+    this.deliveries.delete(webhookId);
+    return this.webhooks.delete(webhookId);
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    if (!this.webhooks.has(delivery.webhookId)) return;
+
+    const deliveries = this.deliveries.get(delivery.webhookId) || [];
+    const index = deliveries.findIndex((existing) => existing.id === delivery.id);
+    if (index >= 0) {
+      deliveries[index] = delivery;
+    } else {
+      deliveries.push(delivery);
+      deliveries.splice(0, deliveries.length - MAX_DELIVERIES_PER_WEBHOOK);
+    }
+    this.deliveries.set(delivery.webhookId, deliveries);
+  }
+
+  async flush(): Promise<void> {}
+
+  async listDeliveries(webhookId: string, limit = MAX_DELIVERIES_PER_WEBHOOK): Promise<WebhookDelivery[]> {
+    return (this.deliveries.get(webhookId) || []).slice(-limit).reverse();
+  }
+}
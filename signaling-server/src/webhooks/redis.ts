@@ -0,0 +1,84 @@
+import { REDIS_PREFIX, createRedisClient } from '../redis';
+import { MAX_DELIVERIES_PER_WEBHOOK } from './index';
+import type { Webhook, WebhookDelivery, WebhookStore } from './index';
+
+// Webhooks and their delivery logs, shared by every signaling instance. A delivery log is
+// a hash of deliveries by id plus a sorted set ordering them by creation time.
+export class RedisWebhookStore implements WebhookStore {
+  private redis = createRedisClient('webhooks');
+
+  private webhookKey(webhookId: string): string {
+    return `${REDIS_PREFIX}webhook:${webhookId}`;
+  }
+
+  private projectKey(projectId: string): string {
+    return `${REDIS_PREFIX}project:${projectId}:webhooks`;
+  }
+
+  async create(webhook: Webhook): Promise<Webhook> {
+    await this.redis
+      .multi()
+      .set(this.webhookKey(webhook.id), JSON.stringify(webhook))
+      .sadd(this.projectKey(webhook.projectId), webhook.id)
+      .exec();
+    return webhook;
+  }
+
+  async get(webhookId: string): Promise<Webhook | undefined> {
+    const json = await this.redis.get(this.webhookKey(webhookId));
+    return json ? (JSON.parse(json) as Webhook) : undefined;
+  }
+
+  async listByProject(projectId: string): Promise<Webhook[]> {
+    const ids = await this.redis.smembers(this.projectKey(projectId));
+    const webhooks = await Promise.all(ids.map((id) => this.get(id)));
+    return webhooks.filter((webhook): webhook is Webhook => webhook !== undefined);
+  }
+
+  async delete(webhookId: string): Promise<boolean> {
+    const webhook = await this.get(webhookId);
+    if (!webhook) return false;
+
+    const key = this.webhookKey(webhookId);
+    await this.redis
+      .multi()
+      .del(key, `${key}:deliveries`, `${key}:delivery-order`)
+      .srem(this.projectKey(webhook.projectId), webhookId)
+      .exec();
+    return true;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    const key = this.webhookKey(delivery.webhookId);
+    if (!(await this.redis.exists(key))) return;
+
+    await this.redis
+      .multi()
+      .hset(`${key}:deliveries`, delivery.id, JSON.stringify(delivery))
+      .zadd(`${key}:delivery-order`, 'NX', Date.parse(delivery.createdAt), delivery.id)
+      .exec();
+
+    // Trim the log to the newest MAX_DELIVERIES_PER_WEBHOOK entries
+    const stale = await this.redis.zrange(`${key}:delivery-order`, 0, -(MAX_DELIVERIES_PER_WEBHOOK + 1));
+    if (stale.length > 0) {
+      await this.redis
+        .multi()
+        .zrem(`${key}:delivery-order`, ...stale)
+        .hdel(`${key}:deliveries`, ...stale)
+        .exec();
+    }
+  }
+
+  async flush(): Promise<void> {}
+
+  async listDeliveries(webhookId: string, limit = MAX_DELIVERIES_PER_WEBHOOK): Promise<WebhookDelivery[]> {
+    const key = this.webhookKey(webhookId);
+    const ids = await this.redis.zrevrange(`${key}:delivery-order`, 0, limit - 1);
+    if (ids.length === 0) return [];
+
+    const deliveries = await this.redis.hmget(`${key}:deliveries`, ...ids);
+    return deliveries
+      .filter((json): json is string => json !== null)
+      .map((json) => JSON.parse(json) as WebhookDelivery);
+  }
+}
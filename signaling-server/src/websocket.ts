@@ -1,149 +1,904 @@
-import { Server } from 'http';
+import { IncomingMessage, Server } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
-import jwt from 'jsonwebtoken';
-import { nodes } from './routes';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ClientMessage,
+  CloseCode,
+  ErrorCode,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  RelayMessage,
+  ServerMessage,
+  ViewerInfo,
+  checkProtocolVersion,
+  parseClientMessage,
+} from 'tldraw-browser-canvas-protocol';
+import { NodeTokenClaims, signResumeToken, tokenSubject, verifyNodeToken } from './auth';
+import { audit } from './audit';
+import { emitWebhook } from './webhooks';
+import { RateLimit, RateLimiter, TokenBucket, limitFromEnv, requestAddress } from './rateLimit';
+import { BusEvent, messageBus } from './bus';
+import { INSTANCE_ID } from './instance';
+import {
+  Gauge,
+  authFailures,
+  disconnects,
+  heartbeatInterval,
+  heartbeatLatency,
+  messagesReceived,
+  messagesRelayed,
+  rejectedJoins,
+} from './metrics';
+import { nodeStore, NodeLiveness } from './store';
+import { Logger, createLogger } from './logger';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
+type MessageOf<T extends ClientMessage['type']> = Extract<ClientMessage, { type: T }>;
+
+const log = createLogger('websocket');
+const rateLimitLog = createLogger('rate-limit');
+const busLog = createLogger('bus');
+
+// A publisher that hasn't heartbeated for this long marks its node offline
+const HEARTBEAT_TIMEOUT_MS = Number(process.env.HEARTBEAT_TIMEOUT_MS) || 15_000;
+// How often to ping every socket; one missed pong and the socket is terminated
+const PING_INTERVAL_MS = Number(process.env.PING_INTERVAL_MS) || 30_000;
+const LIVENESS_SWEEP_MS = 5_000;
+// Longest a node's join queue may grow before further joins are refused
+const MAX_QUEUE_LENGTH = Number(process.env.MAX_QUEUE_LENGTH) || 10;
+// How long a dropped viewer's slot is held for it to resume
+const RESUME_GRACE_MS = Number(process.env.RESUME_GRACE_MS) || 30_000;
+// Largest inbound frame accepted; SDP offers are the biggest legitimate messages
+const MAX_PAYLOAD_BYTES = Number(process.env.WS_MAX_PAYLOAD_BYTES) || 64 * 1024;
+
+// Per-socket message budgets by kind of message, as "<count>/<seconds>"
+type MessageGroup = 'relay' | 'heartbeat' | 'ping' | 'control';
+const MESSAGE_LIMITS: Record<MessageGroup, RateLimit> = {
+  relay: limitFromEnv('WS_LIMIT_RELAY', '200/10'),
+  heartbeat: limitFromEnv('WS_LIMIT_HEARTBEAT', '5/5'),
+  ping: limitFromEnv('WS_LIMIT_PING', '10/10'),
+  control: limitFromEnv('WS_LIMIT_CONTROL', '20/10'),
+};
+// Budget shared by every socket from one IP
+const ipMessageLimiter = new RateLimiter('WebSocket messages per IP', limitFromEnv('WS_LIMIT_PER_IP', '500/10'));
+// Rejected messages a socket may send before it's disconnected
+const VIOLATION_LIMIT = limitFromEnv('WS_VIOLATION_LIMIT', '10/60');
 
 interface Client {
   ws: WebSocket;
+  // Correlation id for this socket's log lines
+  connectionId: string;
   nodeId?: string;
   type?: 'publisher' | 'viewer';
   token?: string;
+  // Stable id other peers use to address offer/answer/ice at this client
+  peerId?: string;
+  // Cleared before each protocol-level ping, set again by the pong
+  isAlive: boolean;
+  lastHeartbeatAt?: number;
+  // Projects this socket receives node-created/node-status/node-revoked events for
+  projects: Set<string>;
+  // Node this viewer is waiting on a slot for
+  queuedFor?: string;
+  // Viewers only: the slot held for them if the socket drops, and the token that reclaims it
+  resumeSlotId?: string;
+  resumeToken?: string;
+  address: string;
+  // Audit subject of the token this client registered with
+  subject?: string;
+  // Viewers only: name from the viewer token, and when they first joined (ms)
+  displayName?: string | null;
+  color?: string | null;
+  joinedAt?: number;
+  // Set when the owner kicks this viewer, so its close isn't treated as a network drop
+  kicked?: boolean;
+  connectedAt: number;
+  buckets: Record<MessageGroup, TokenBucket>;
+  violations: TokenBucket;
+}
+
+interface QueuedViewer {
+  ws: WebSocket;
+  client: Client;
+  projectId: string;
+  viewerToken: string;
+}
+
+interface SuspendedViewer {
+  nodeId: string;
+  client: Client;
+  timer: ReturnType<typeof setTimeout>;
 }
 
 const clients = new Map<WebSocket, Client>();
 
+// Viewers waiting for a free slot, per node, in join order
+const queues = new Map<string, QueuedViewer[]>();
+
+// Dropped viewers whose slots this instance is holding, by peerId
+const suspended = new Map<string, SuspendedViewer>();
+
+// Bus channels this instance listens on: node:<nodeId> and project:<projectId>
+const busChannels = new Set<string>();
+
+// Disconnect handlers still running, so shutdown can wait for their store writes
+const pendingDisconnects = new Set<Promise<void>>();
+
+// Set once shutdown begins; new sockets are turned away
+let draining = false;
+
+// Standard close code for an endpoint going away, e.g. a server restarting
+const CLOSE_GOING_AWAY = 1001;
+
+new Gauge('signaling_connected_clients', 'Registered WebSocket clients on this instance, by role', () => {
+  const counts = { publisher: 0, viewer: 0 };
+  for (const client of clients.values()) {
+    if (client.type) counts[client.type]++;
+  }
+  return [[{ role: 'publisher' }, counts.publisher], [{ role: 'viewer' }, counts.viewer]];
+});
+
+new Gauge('signaling_queued_viewers', 'Viewers waiting for a slot on this instance', () => {
+  let total = 0;
+  for (const queue of queues.values()) total += queue.length;
+  return [[{}, total]];
+});
+
 export function createWebSocketServer(server: Server): WebSocketServer {
   const wss = new WebSocketServer({
     server,
     path: '/signal',
+    maxPayload: MAX_PAYLOAD_BYTES,
   });
 
-  wss.on('connection', (ws: WebSocket) => {
-    console.log('New WebSocket connection');
-    clients.set(ws, { ws });
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    if (draining) {
+      ws.close(CLOSE_GOING_AWAY, 'Server restarting');
+      return;
+    }
+
+    const connection: Client = {
+      ws,
+      connectionId: uuidv4(),
+      isAlive: true,
+      projects: new Set(),
+      address: requestAddress(req),
+      connectedAt: Date.now(),
+      buckets: {
+        relay: new TokenBucket(MESSAGE_LIMITS.relay),
+        heartbeat: new TokenBucket(MESSAGE_LIMITS.heartbeat),
+        ping: new TokenBucket(MESSAGE_LIMITS.ping),
+        control: new TokenBucket(MESSAGE_LIMITS.control),
+      },
+      violations: new TokenBucket(VIOLATION_LIMIT),
+    };
+    clients.set(ws, connection);
+    clientLog(connection).info('WebSocket connected');
+    send(ws, { type: 'hello', protocolVersion: PROTOCOL_VERSION, minProtocolVersion: MIN_PROTOCOL_VERSION });
+
+    ws.on('pong', () => {
+      const client = clients.get(ws);
+      if (client) client.isAlive = true;
+    });
 
     ws.on('message', (message: string) => {
+      const client = clients.get(ws);
+      // Anything still arriving after we closed an offender's socket is dropped
+      if (!client || ws.readyState !== WebSocket.OPEN) return;
+
+      let data: unknown;
       try {
-        const data = JSON.parse(message);
-        handleMessage(ws, data);
+        data = JSON.parse(message);
       } catch (err) {
-        console.error('Invalid message:', err);
-        ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+        clientLog(client).warn('Invalid message', { err });
+        if (allowMessage(client, 'control')) {
+          sendError(ws, 'invalid_json', 'Invalid message format');
+        }
+        return;
       }
+
+      if (!allowMessage(client, messageGroup(data))) return;
+
+      handleMessage(ws, data).catch((err) => {
+        clientLog(client).error('Failed to handle message', { err });
+        sendError(ws, 'internal', 'Internal error');
+      });
     });
 
     ws.on('close', () => {
-      handleDisconnect(ws);
+      const pending = handleDisconnect(ws).catch((err) => {
+        clientLog(connection).error('Failed to handle disconnect', { err });
+      });
+      pendingDisconnects.add(pending);
+      pending.finally(() => pendingDisconnects.delete(pending));
     });
 
     ws.on('error', (err) => {
-      console.error('WebSocket error:', err);
+      clientLog(connection).error('WebSocket error', { err });
+    });
+  });
+
+  // Half-open sockets never fire 'close' on their own; terminate any that missed a pong
+  const pingTimer = setInterval(() => {
+    for (const [ws, client] of clients.entries()) {
+      if (!client.isAlive) {
+        clientLog(client).info('Terminating unresponsive socket');
+        ws.terminate();
+        continue;
+      }
+      client.isAlive = false;
+      ws.ping();
+    }
+  }, PING_INTERVAL_MS);
+
+  const sweepTimer = setInterval(() => {
+    sweepLiveness().catch((err) => {
+      log.error('Liveness sweep failed', { err });
+    });
+    // Reservations expire silently, so retry queued viewers on the same tick
+    drainQueues().catch((err) => {
+      log.error('Queue drain failed', { err });
     });
+  }, LIVENESS_SWEEP_MS);
+
+  wss.on('close', () => {
+    clearInterval(pingTimer);
+    clearInterval(sweepTimer);
   });
 
   return wss;
 }
 
-function handleMessage(ws: WebSocket, data: any) {
+export interface DrainOptions {
+  // Longest to wait for clients to leave on their own before closing their sockets
+  timeoutMs: number;
+  // Suggested reconnect delay; each client gets up to double this so they don't all return at once
+  reconnectDelayMs: number;
+}
+
+// Turn away new sockets, tell every client to reconnect elsewhere or later, give them
+// `timeoutMs` to go, then close the rest with 1001. Resolves once their disconnects
+// have been recorded. Dropped viewers' slots stay reserved in the store, so they can
+// resume on another instance within the grace period.
+export async function drainWebSocketServer(wss: WebSocketServer, options: DrainOptions): Promise<void> {
+  draining = true;
+
+  for (const ws of clients.keys()) {
+    const reconnectInMs = Math.round(options.reconnectDelayMs * (1 + Math.random()));
+    send(ws, { type: 'server-restarting', reconnectInMs });
+  }
+
+  await waitForClientsToLeave(Date.now() + options.timeoutMs);
+
+  if (clients.size > 0) {
+    log.info('Closing remaining sockets', { count: clients.size });
+  }
+  for (const ws of clients.keys()) {
+    ws.close(CLOSE_GOING_AWAY, 'Server restarting');
+  }
+
+  // Give close handshakes a moment, then cut off clients that don't answer
+  await waitForClientsToLeave(Date.now() + 2000);
+  for (const ws of clients.keys()) {
+    ws.terminate();
+  }
+  await waitForClientsToLeave(Date.now() + 1000);
+
+  await new Promise<void>((resolve) => wss.close(() => resolve()));
+  await Promise.all(Array.from(pendingDisconnects));
+
+  // Grace timers die with this process; the held reservations expire in the store on their own
+  for (const { timer } of suspended.values()) {
+    clearTimeout(timer);
+  }
+  suspended.clear();
+}
+
+// Sockets leave `clients` as soon as they close
+async function waitForClientsToLeave(deadline: number) {
+  while (clients.size > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+function messageGroup(data: unknown): MessageGroup {
+  switch ((data as { type?: unknown } | null)?.type) {
+    case 'offer':
+    case 'answer':
+    case 'ice':
+      return 'relay';
+    case 'heartbeat':
+      return 'heartbeat';
+    case 'ping':
+      return 'ping';
+    default:
+      return 'control';
+  }
+}
+
+// Charge a message to its socket's and IP's budgets. Over-limit messages are dropped
+// with a rate_limited error; a socket that keeps sending after too many is closed.
+function allowMessage(client: Client, group: MessageGroup): boolean {
+  let result = client.buckets[group].take();
+  if (result.allowed) {
+    result = ipMessageLimiter.take(client.address);
+  }
+  if (result.allowed) return true;
+
+  if (!client.violations.take().allowed) {
+    clientLog(client, rateLimitLog).warn('Disconnecting after repeated violations');
+    client.ws.close(CloseCode.RateLimited, 'Rate limit exceeded');
+    return false;
+  }
+
+  const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+  clientLog(client, rateLimitLog).warn('Dropped message', { group, retryAfter });
+  sendError(client.ws, 'rate_limited', `Too many ${group} messages; retry in ${retryAfter}s`);
+  return false;
+}
+
+// Log lines about a socket carry its connectionId, plus the node and peer once it registers
+function clientLog(client: Client, logger: Logger = log): Logger {
+  return logger.child({
+    connectionId: client.connectionId,
+    address: client.address,
+    nodeId: client.nodeId || client.queuedFor,
+    peerId: client.peerId,
+    role: client.type,
+  });
+}
+
+function send(ws: WebSocket, message: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendError(ws: WebSocket, code: ErrorCode, message: string) {
+  send(ws, { type: 'error', code, message });
+}
+
+function recordAuthFailure(client: Client, nodeId: string, messageType: ClientMessage['type']) {
+  authFailures.inc({ transport: 'websocket', code: 'invalid_token' });
+  audit('auth.failed', nodeId, {
+    remoteAddress: client.address,
+    details: { transport: 'websocket', code: 'invalid_token', messageType },
+  });
+}
+
+function rejectJoin(ws: WebSocket, code: ErrorCode, message: string) {
+  rejectedJoins.inc({ reason: code });
+  sendError(ws, code, message);
+}
+
+async function handleMessage(ws: WebSocket, raw: unknown) {
   const client = clients.get(ws);
   if (!client) return;
 
+  // Check the version before the schema so clients from before versioning get a clear error
+  const type = (raw as { type?: unknown } | null)?.type;
+  if (type === 'publish' || type === 'join' || type === 'resume') {
+    const problem = checkProtocolVersion((raw as { protocolVersion?: unknown }).protocolVersion);
+    if (problem) {
+      messagesReceived.inc({ type: 'invalid' });
+      sendError(ws, 'unsupported_protocol', problem);
+      ws.close(CloseCode.UnsupportedProtocol, 'Unsupported protocol version');
+      return;
+    }
+  }
+
+  const parsed = parseClientMessage(raw);
+  messagesReceived.inc({ type: parsed.ok ? parsed.message.type : 'invalid' });
+  if (!parsed.ok) {
+    sendError(ws, parsed.code, parsed.error);
+    return;
+  }
+
+  const data = parsed.message;
   switch (data.type) {
     case 'publish':
-      handlePublish(ws, client, data);
+      await handlePublish(ws, client, data);
       break;
     case 'join':
-      handleJoin(ws, client, data);
+      await handleJoin(ws, client, data);
+      break;
+    case 'resume':
+      await handleResume(ws, client, data);
       break;
     case 'offer':
     case 'answer':
     case 'ice':
-      relayMessage(ws, data);
+      await relayMessage(ws, data);
+      break;
+    case 'subscribe-project':
+      await handleSubscribeProject(ws, client, data);
+      break;
+    case 'unsubscribe-project':
+      client.projects.delete(data.projectId);
+      releaseChannels();
+      break;
+    case 'reauth':
+      handleReauth(ws, client, data);
       break;
     case 'ping':
       handlePing(ws, client);
       break;
     case 'heartbeat':
-      handleHeartbeat(ws, client, data);
+      await handleHeartbeat(ws, client, data);
       break;
-    default:
-      ws.send(JSON.stringify({ type: 'error', message: 'Unknown message type' }));
   }
 }
 
-function handlePublish(ws: WebSocket, client: Client, data: { nodeId: string; ownerToken: string }) {
+async function handlePublish(ws: WebSocket, client: Client, data: MessageOf<'publish'>) {
+  let claims: NodeTokenClaims;
   try {
-    const decoded = jwt.verify(data.ownerToken, JWT_SECRET) as any;
-    if (decoded.type !== 'owner' || decoded.nodeId !== data.nodeId) {
-      throw new Error('Invalid token');
-    }
+    claims = verifyNodeToken(data.ownerToken, 'owner', data.nodeId);
+  } catch (err) {
+    recordAuthFailure(client, data.nodeId, 'publish');
+    sendError(ws, 'invalid_token', 'Invalid owner token');
+    return;
+  }
+
+  const node = await nodeStore.get(data.nodeId);
+  if (node && node.status === 'revoked') {
+    sendError(ws, 'revoked', 'Node has been revoked');
+    return;
+  }
+
+  client.nodeId = data.nodeId;
+  client.type = 'publisher';
+  client.token = data.ownerToken;
+  client.peerId = uuidv4();
+
+  listen(`node:${data.nodeId}`);
 
-    client.nodeId = data.nodeId;
-    client.type = 'publisher';
-    client.token = data.ownerToken;
+  client.subject = tokenSubject(claims);
+  audit('publisher.connected', data.nodeId, {
+    subject: client.subject,
+    remoteAddress: client.address,
+    details: { peerId: client.peerId },
+  });
+
+  clientLog(client).info('Publisher registered');
+  send(ws, { type: 'connected', role: 'publisher', peerId: client.peerId });
+  send(ws, { type: 'viewers', nodeId: data.nodeId, viewers: await nodeStore.listViewers(data.nodeId) });
+}
 
-    console.log(`Publisher registered for node: ${data.nodeId}`);
-    ws.send(JSON.stringify({ type: 'connected', role: 'publisher' }));
+async function handleJoin(ws: WebSocket, client: Client, data: MessageOf<'join'>) {
+  let claims: NodeTokenClaims;
+  try {
+    claims = verifyNodeToken(data.viewerToken, 'viewer', data.nodeId);
   } catch (err) {
-    ws.send(JSON.stringify({ type: 'error', message: 'Invalid owner token' }));
+    recordAuthFailure(client, data.nodeId, 'join');
+    rejectJoin(ws, 'invalid_token', 'Invalid viewer token');
+    return;
+  }
+
+  if (client.nodeId || client.queuedFor) {
+    rejectJoin(ws, 'already_joined', 'Already joined');
+    return;
+  }
+
+  const node = await nodeStore.get(data.nodeId);
+  if (!node || node.status === 'revoked') {
+    rejectJoin(ws, 'node_unavailable', 'Node not available');
+    return;
+  }
+
+  if (claims.sub && (await nodeStore.isViewerBlocked(data.nodeId, claims.sub))) {
+    rejectJoin(ws, 'blocked', 'This viewer token was removed by the node owner');
+    return;
+  }
+
+  client.subject = tokenSubject(claims);
+  client.displayName = claims.name || null;
+  client.color = claims.color || null;
+  const viewerCount = await nodeStore.incrementViewers(data.nodeId, claims.slotId);
+  if (viewerCount === null) {
+    enqueueViewer(ws, client, data.nodeId, node.projectId, data.viewerToken);
+    return;
   }
+
+  admitViewer(ws, client, data.nodeId, node.projectId, data.viewerToken, viewerCount);
+}
+
+function admitViewer(
+  ws: WebSocket,
+  client: Client,
+  nodeId: string,
+  projectId: string,
+  viewerToken: string,
+  viewerCount: number
+) {
+  client.nodeId = nodeId;
+  client.type = 'viewer';
+  client.token = viewerToken;
+  client.peerId = uuidv4();
+  client.resumeSlotId = uuidv4();
+  client.resumeToken = signResumeToken(nodeId, projectId, client.peerId, client.resumeSlotId);
+  client.joinedAt = Date.now();
+  listen(`node:${nodeId}`);
+
+  audit('viewer.joined', nodeId, {
+    subject: client.subject,
+    remoteAddress: client.address,
+    details: { peerId: client.peerId },
+  });
+
+  emitWebhook('viewer.joined', nodeId, { peerId: client.peerId, viewerCount });
+
+  clientLog(client).info('Viewer joined', { viewerCount });
+  send(ws, { type: 'connected', role: 'viewer', peerId: client.peerId, resumeToken: client.resumeToken });
+
+  // Notify publisher
+  broadcastToNode(nodeId, { type: 'viewer-count', nodeId, count: viewerCount }, 'publisher');
+
+  // Notify publisher of new viewer so it can open a peer connection addressed to it
+  broadcastToNode(nodeId, { type: 'join', nodeId, peerId: client.peerId }, 'publisher');
+  updateViewerList(nodeId, toViewerInfo(client));
 }
 
-function handleJoin(ws: WebSocket, client: Client, data: { nodeId: string; viewerToken: string }) {
+// Put a viewer whose socket dropped back into the slot held for it, under its old peerId
+async function handleResume(ws: WebSocket, client: Client, data: MessageOf<'resume'>) {
+  let viewer: NodeTokenClaims;
+  let resume: NodeTokenClaims;
   try {
-    const decoded = jwt.verify(data.viewerToken, JWT_SECRET) as any;
-    if (decoded.type !== 'viewer' || decoded.nodeId !== data.nodeId) {
-      throw new Error('Invalid token');
-    }
+    viewer = verifyNodeToken(data.viewerToken, 'viewer', data.nodeId);
+    resume = verifyNodeToken(data.resumeToken, 'resume', data.nodeId);
+  } catch (err) {
+    recordAuthFailure(client, data.nodeId, 'resume');
+    rejectJoin(ws, 'invalid_token', 'Invalid viewer or resume token');
+    return;
+  }
 
-    const node = nodes.get(data.nodeId);
-    if (!node || node.status === 'revoked') {
-      ws.send(JSON.stringify({ type: 'error', message: 'Node not available' }));
-      return;
-    }
+  if (client.nodeId || client.queuedFor) {
+    rejectJoin(ws, 'already_joined', 'Already joined');
+    return;
+  }
 
-    if (node.viewerCount >= 3) {
-      ws.send(JSON.stringify({ type: 'error', message: 'Max viewers reached' }));
-      return;
-    }
+  const node = await nodeStore.get(data.nodeId);
+  if (!node || node.status === 'revoked') {
+    rejectJoin(ws, 'node_unavailable', 'Node not available');
+    return;
+  }
+
+  if (viewer.sub && (await nodeStore.isViewerBlocked(data.nodeId, viewer.sub))) {
+    rejectJoin(ws, 'blocked', 'This viewer token was removed by the node owner');
+    return;
+  }
+
+  // The slot is only held for the grace period, and only one socket may claim it
+  const { peerId, slotId } = resume;
+  const heldUntil = slotId ? node.reservations[slotId] : undefined;
+  if (!peerId || !slotId || !heldUntil || heldUntil <= Date.now() || findPeer(data.nodeId, 'viewer', peerId)) {
+    rejectJoin(ws, 'resume_failed', 'Session can no longer be resumed; join again');
+    return;
+  }
+
+  const viewerCount = await nodeStore.incrementViewers(data.nodeId, slotId);
+  if (viewerCount === null) {
+    rejectJoin(ws, 'resume_failed', 'Session can no longer be resumed; join again');
+    return;
+  }
 
-    node.viewerCount++;
+  // Keep the original join time if this instance held the dropped session
+  const previous = suspended.get(peerId);
+  cancelSuspension(peerId);
+  publishEvent(`node:${data.nodeId}`, { kind: 'viewer-resumed', origin: INSTANCE_ID, nodeId: data.nodeId, peerId });
 
-    client.nodeId = data.nodeId;
-    client.type = 'viewer';
-    client.token = data.viewerToken;
+  client.nodeId = data.nodeId;
+  client.type = 'viewer';
+  client.token = data.viewerToken;
+  client.peerId = peerId;
+  client.resumeSlotId = slotId;
+  client.resumeToken = data.resumeToken;
+  client.subject = tokenSubject(viewer);
+  client.displayName = viewer.name || null;
+  client.color = viewer.color || null;
+  client.joinedAt = previous?.client.joinedAt ?? Date.now();
+  listen(`node:${data.nodeId}`);
 
-    console.log(`Viewer joined node: ${data.nodeId} (${node.viewerCount} viewers)`);
-    ws.send(JSON.stringify({ type: 'connected', role: 'viewer' }));
+  audit('viewer.joined', data.nodeId, {
+    subject: client.subject,
+    remoteAddress: client.address,
+    details: { peerId, resumed: true },
+  });
 
-    // Notify publisher
-    broadcastToNode(data.nodeId, { type: 'viewer-count', nodeId: data.nodeId, count: node.viewerCount }, 'publisher');
+  clientLog(client).info('Viewer resumed', { viewerCount });
+  send(ws, { type: 'connected', role: 'viewer', peerId, resumeToken: data.resumeToken });
 
-    // Notify publisher of new viewer
-    broadcastToNode(data.nodeId, { type: 'join', viewerToken: data.viewerToken }, 'publisher');
-  } catch (err) {
-    ws.send(JSON.stringify({ type: 'error', message: 'Invalid viewer token' }));
+  broadcastToNode(data.nodeId, { type: 'viewer-count', nodeId: data.nodeId, count: viewerCount }, 'publisher');
+  // The publisher keeps its peer connection for this viewer and restarts ICE on it
+  broadcastToNode(data.nodeId, { type: 'viewer-reconnected', nodeId: data.nodeId, peerId }, 'publisher');
+  // Only the instance that held the dropped session knows its join time; elsewhere it restarts from now
+  updateViewerList(data.nodeId, toViewerInfo(client));
+}
+
+// Hold a dropped viewer's slot; if it hasn't resumed by the deadline, it has left
+function suspendViewer(nodeId: string, peerId: string, client: Client) {
+  const timer = setTimeout(() => {
+    suspended.delete(peerId);
+    log.info('Viewer did not resume', { nodeId, peerId });
+    audit('viewer.left', nodeId, {
+      subject: client.subject,
+      remoteAddress: client.address,
+      details: { peerId, resumeExpired: true },
+    });
+
+    nodeStore.get(nodeId)
+      .then((node) => viewerLeft(nodeId, peerId, node ? node.viewerCount : null))
+      .catch((err) => {
+        log.error('Failed to release suspended viewer', { nodeId, peerId, err });
+      });
+  }, RESUME_GRACE_MS);
+
+  suspended.set(peerId, { nodeId, client, timer });
+}
+
+function cancelSuspension(peerId: string) {
+  const entry = suspended.get(peerId);
+  if (!entry) return;
+
+  clearTimeout(entry.timer);
+  suspended.delete(peerId);
+  releaseChannels();
+}
+
+// Tell the publisher a viewer is gone for good and offer its slot to the queue
+async function viewerLeft(nodeId: string, peerId: string | undefined, viewerCount: number | null) {
+  if (viewerCount !== null) {
+    broadcastToNode(nodeId, { type: 'viewer-count', nodeId, count: viewerCount }, 'publisher');
+  }
+
+  // Let the publisher tear down the peer connection it opened for this viewer
+  if (peerId) {
+    broadcastToNode(nodeId, { type: 'leave', nodeId, peerId }, 'publisher');
+    emitWebhook('viewer.left', nodeId, { peerId, viewerCount });
+    await nodeStore.removeViewer(nodeId, peerId);
+    await sendViewerList(nodeId);
+  }
+
+  await admitQueuedViewers(nodeId);
+  publishEvent(`node:${nodeId}`, { kind: 'slot-freed', origin: INSTANCE_ID, nodeId });
+}
+
+function toViewerInfo(client: Client): ViewerInfo {
+  return {
+    peerId: client.peerId!,
+    displayName: client.displayName ?? null,
+    color: client.color ?? null,
+    joinedAt: new Date(client.joinedAt ?? Date.now()).toISOString(),
+  };
+}
+
+// Add or refresh a viewer's entry, then announce the new list
+function updateViewerList(nodeId: string, viewer: ViewerInfo) {
+  nodeStore.setViewer(nodeId, viewer)
+    .then(() => sendViewerList(nodeId))
+    .catch((err) => {
+      log.error('Failed to update viewer list', { nodeId, err });
+    });
+}
+
+// The publisher gets `viewers`, everyone on the node `presence`, and the node's project `node-presence`
+async function sendViewerList(nodeId: string) {
+  const node = await nodeStore.get(nodeId);
+  const viewers = await nodeStore.listViewers(nodeId);
+
+  broadcastToNode(nodeId, { type: 'viewers', nodeId, viewers }, 'publisher');
+  broadcastToNode(nodeId, { type: 'presence', nodeId, viewers });
+  if (node) {
+    broadcastToProject(node.projectId, { type: 'node-presence', projectId: node.projectId, nodeId, viewers });
   }
 }
 
-function relayMessage(ws: WebSocket, data: any) {
+// Remove a viewer at its owner's request. Its token is blocked first so the
+// client can't resume or rejoin with it once the socket closes.
+// Returns 'forwarded' when the viewer may be connected to another instance.
+export async function kickViewer(nodeId: string, peerId: string): Promise<'kicked' | 'forwarded' | 'not_found'> {
+  if (await kickLocalViewer(nodeId, peerId)) return 'kicked';
+  if (!messageBus.shared) return 'not_found';
+
+  publishEvent(`node:${nodeId}`, { kind: 'kick', origin: INSTANCE_ID, nodeId, peerId });
+  return 'forwarded';
+}
+
+async function kickLocalViewer(nodeId: string, peerId: string): Promise<boolean> {
+  const client = findPeer(nodeId, 'viewer', peerId);
+  const entry = suspended.get(peerId);
+  const target = client || (entry && entry.nodeId === nodeId ? entry.client : undefined);
+  if (!target) return false;
+
+  // Tokens from before subjects existed all share the subject 'viewer'; don't block them all
+  if (target.subject && target.subject !== 'viewer') {
+    await nodeStore.blockViewer(nodeId, target.subject);
+  }
+  log.info('Viewer kicked', { nodeId, peerId });
+
+  if (client) {
+    client.kicked = true;
+    send(client.ws, { type: 'kicked', nodeId });
+    client.ws.close(CloseCode.Kicked, 'Removed by node owner');
+    return true;
+  }
+
+  // Dropped viewer waiting out its grace period: end the session now
+  cancelSuspension(peerId);
+  audit('viewer.left', nodeId, {
+    subject: target.subject,
+    remoteAddress: target.address,
+    details: { peerId, kicked: true },
+  });
+  const node = await nodeStore.get(nodeId);
+  await viewerLeft(nodeId, peerId, node ? node.viewerCount : null);
+  return true;
+}
+
+export interface ConnectionInfo {
+  peerId: string | null;
+  role: 'publisher' | 'viewer' | 'queued' | 'unregistered';
+  nodeId: string | null;
+  subject: string | null;
+  displayName: string | null;
+  remoteAddress: string;
+  projects: string[];
+  connectedAt: string;
+  joinedAt: string | null;
+  lastHeartbeatAt: string | null;
+}
+
+// Every socket on this instance, for the admin API
+export function listConnections(): ConnectionInfo[] {
+  return Array.from(clients.values()).map((client) => ({
+    peerId: client.peerId || null,
+    role: client.type || (client.queuedFor ? 'queued' : 'unregistered'),
+    nodeId: client.nodeId || client.queuedFor || null,
+    subject: client.subject || null,
+    displayName: client.displayName ?? null,
+    remoteAddress: client.address,
+    projects: Array.from(client.projects),
+    connectedAt: new Date(client.connectedAt).toISOString(),
+    joinedAt: client.joinedAt ? new Date(client.joinedAt).toISOString() : null,
+    lastHeartbeatAt: client.lastHeartbeatAt ? new Date(client.lastHeartbeatAt).toISOString() : null,
+  }));
+}
+
+function enqueueViewer(ws: WebSocket, client: Client, nodeId: string, projectId: string, viewerToken: string) {
+  const queue = queues.get(nodeId) || [];
+  if (queue.length >= MAX_QUEUE_LENGTH) {
+    rejectJoin(ws, 'max_viewers', 'Max viewers reached');
+    return;
+  }
+
+  queue.push({ ws, client, projectId, viewerToken });
+  queues.set(nodeId, queue);
+  client.queuedFor = nodeId;
+  listen(`node:${nodeId}`);
+
+  clientLog(client).info('Viewer queued', { position: queue.length });
+  send(ws, { type: 'queued', nodeId, position: queue.length });
+}
+
+function dequeueViewer(nodeId: string, ws: WebSocket) {
+  const queue = queues.get(nodeId);
+  if (!queue) return;
+
+  // Mutate in place: an in-flight admitQueuedViewers may hold this array
+  const index = queue.findIndex((entry) => entry.ws === ws);
+  if (index !== -1) queue.splice(index, 1);
+
+  if (queue.length === 0) {
+    queues.delete(nodeId);
+  } else {
+    notifyQueuePositions(nodeId);
+  }
+}
+
+function notifyQueuePositions(nodeId: string) {
+  const queue = queues.get(nodeId) || [];
+  queue.forEach((entry, i) => {
+    send(entry.ws, { type: 'queued', nodeId, position: i + 1 });
+  });
+}
+
+// Admit queued viewers in order for as long as the node has free slots
+async function admitQueuedViewers(nodeId: string) {
+  const queue = queues.get(nodeId);
+  if (!queue || queue.length === 0) return;
+
+  let admitted = false;
+  while (queue.length > 0) {
+    // Take the head before awaiting so a concurrent drain can't admit it twice
+    const next = queue.shift()!;
+    const viewerCount = await nodeStore.incrementViewers(nodeId);
+    if (viewerCount === null) {
+      queue.unshift(next);
+      break;
+    }
+
+    // The viewer left while we were waiting on the store; give the slot back
+    if (next.ws.readyState !== WebSocket.OPEN) {
+      await nodeStore.decrementViewers(nodeId);
+      continue;
+    }
+
+    next.client.queuedFor = undefined;
+    admitViewer(next.ws, next.client, nodeId, next.projectId, next.viewerToken, viewerCount);
+    admitted = true;
+  }
+
+  if (queue.length === 0 && queues.get(nodeId) === queue) {
+    queues.delete(nodeId);
+  } else if (admitted) {
+    notifyQueuePositions(nodeId);
+  }
+}
+
+async function drainQueues() {
+  for (const nodeId of Array.from(queues.keys())) {
+    await admitQueuedViewers(nodeId);
+  }
+}
+
+async function relayMessage(ws: WebSocket, data: RelayMessage) {
   const client = clients.get(ws);
   if (!client || !client.nodeId) {
-    ws.send(JSON.stringify({ type: 'error', message: 'Not registered' }));
+    sendError(ws, 'not_registered', 'Not registered');
+    return;
+  }
+
+  // Sockets on a revoked node are closing; drop anything still in flight
+  const node = await nodeStore.get(client.nodeId);
+  if (node && node.status === 'revoked') {
+    sendError(ws, 'revoked', 'Node has been revoked');
+    return;
+  }
+
+  // Publishers must address a viewer; viewers may omit `to` and reach the node's publisher
+  if (client.type === 'publisher' && !data.to) {
+    sendError(ws, 'missing_peer', 'Missing target peer');
     return;
   }
 
-  // Relay to all clients on the same node (excluding sender)
   const targetType = client.type === 'publisher' ? 'viewer' : 'publisher';
-  broadcastToNode(client.nodeId, data, targetType, ws);
+  const target = findPeer(client.nodeId, targetType, data.to);
+  if (target && target.ws.readyState === WebSocket.OPEN) {
+    // Stamp the sender so the receiver knows which peer connection this belongs to
+    send(target.ws, { ...data, nodeId: client.nodeId, from: client.peerId, to: target.peerId });
+    messagesRelayed.inc({ type: data.type });
+    return;
+  }
+
+  if (!messageBus.shared) {
+    sendError(ws, 'peer_not_found', 'Peer not found');
+    return;
+  }
+
+  // The peer may be connected to another instance; whichever one holds it delivers
+  messagesRelayed.inc({ type: data.type });
+  publishEvent(`node:${client.nodeId}`, {
+    kind: 'deliver',
+    origin: INSTANCE_ID,
+    nodeId: client.nodeId,
+    message: { ...data, nodeId: client.nodeId, from: client.peerId },
+    targetType,
+    peerId: data.to,
+  });
+}
+
+function findPeer(nodeId: string, type: 'publisher' | 'viewer', peerId?: string): Client | undefined {
+  for (const client of clients.values()) {
+    if (client.nodeId === nodeId && client.type === type && (!peerId || client.peerId === peerId)) {
+      return client;
+    }
+  }
+  return undefined;
 }
 
-function broadcastToNode(nodeId: string, message: any, targetType?: 'publisher' | 'viewer', excludeWs?: WebSocket) {
+// Send to the node's sockets on this instance, optionally only one role or one peer
+function deliverToNode(nodeId: string, message: ServerMessage, targetType?: 'publisher' | 'viewer', peerId?: string) {
   for (const [ws, client] of clients.entries()) {
-    if (client.nodeId === nodeId && ws !== excludeWs) {
-      if (!targetType || client.type === targetType) {
+    if (client.nodeId === nodeId) {
+      if ((!targetType || client.type === targetType) && (!peerId || client.peerId === peerId)) {
         if (ws.readyState === WebSocket.OPEN) {
           ws.send(JSON.stringify(message));
         }
@@ -152,20 +907,221 @@ function broadcastToNode(nodeId: string, message: any, targetType?: 'publisher'
   }
 }
 
+// Send to the node's sockets on every instance
+function broadcastToNode(nodeId: string, message: ServerMessage, targetType?: 'publisher' | 'viewer') {
+  deliverToNode(nodeId, message, targetType);
+  publishEvent(`node:${nodeId}`, { kind: 'deliver', origin: INSTANCE_ID, nodeId, message, targetType });
+}
+
+function deliverToProject(projectId: string, message: ServerMessage) {
+  for (const [ws, client] of clients.entries()) {
+    if (client.projects.has(projectId) && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+}
+
+export function broadcastToProject(projectId: string, message: ServerMessage) {
+  deliverToProject(projectId, message);
+  publishEvent(`project:${projectId}`, { kind: 'project', origin: INSTANCE_ID, projectId, message });
+}
+
+function publishEvent(channel: string, event: BusEvent) {
+  messageBus.publish(channel, event).catch((err) => {
+    busLog.error('Failed to publish event', { kind: event.kind, channel, err });
+  });
+}
+
+function handleBusEvent(event: BusEvent) {
+  if (event.origin === INSTANCE_ID) return;
+
+  switch (event.kind) {
+    case 'deliver':
+      deliverToNode(event.nodeId, event.message, event.targetType, event.peerId);
+      break;
+    case 'project':
+      deliverToProject(event.projectId, event.message);
+      break;
+    case 'revoke':
+      closeNodeConnections(event.nodeId);
+      break;
+    case 'slot-freed':
+      admitQueuedViewers(event.nodeId).catch((err) => {
+        log.error('Queue admission failed', { nodeId: event.nodeId, err });
+      });
+      break;
+    case 'viewer-resumed':
+      cancelSuspension(event.peerId);
+      break;
+    case 'kick':
+      kickLocalViewer(event.nodeId, event.peerId).catch((err) => {
+        log.error('Failed to kick viewer', { nodeId: event.nodeId, peerId: event.peerId, err });
+      });
+      break;
+  }
+}
+
+function listen(channel: string) {
+  if (busChannels.has(channel)) return;
+
+  busChannels.add(channel);
+  messageBus.subscribe(channel, handleBusEvent).catch((err) => {
+    busChannels.delete(channel);
+    busLog.error('Failed to subscribe', { channel, err });
+  });
+}
+
+// Stop listening on channels no local socket needs any more
+function releaseChannels() {
+  const needed = new Set<string>();
+  for (const client of clients.values()) {
+    if (client.nodeId) needed.add(`node:${client.nodeId}`);
+    if (client.queuedFor) needed.add(`node:${client.queuedFor}`);
+    for (const projectId of client.projects) needed.add(`project:${projectId}`);
+  }
+  for (const { nodeId } of suspended.values()) {
+    needed.add(`node:${nodeId}`);
+  }
+
+  for (const channel of Array.from(busChannels)) {
+    if (needed.has(channel)) continue;
+
+    busChannels.delete(channel);
+    messageBus.unsubscribe(channel).catch((err) => {
+      busLog.error('Failed to unsubscribe', { channel, err });
+    });
+  }
+}
+
+async function handleSubscribeProject(ws: WebSocket, client: Client, data: MessageOf<'subscribe-project'>) {
+  client.projects.add(data.projectId);
+  listen(`project:${data.projectId}`);
+  send(ws, { type: 'subscribed', projectId: data.projectId });
+
+  // Catch the subscriber up on who is watching; later changes arrive as they happen
+  for (const node of await nodeStore.listByProject(data.projectId)) {
+    if (node.status !== 'active') continue;
+
+    const viewers = await nodeStore.listViewers(node.nodeId);
+    if (viewers.length > 0) {
+      send(ws, { type: 'node-presence', projectId: data.projectId, nodeId: node.nodeId, viewers });
+    }
+  }
+}
+
+// Tell every publisher and viewer on the node, on every instance, that it has been
+// revoked, then close their sockets
+export function revokeNodeConnections(nodeId: string) {
+  closeNodeConnections(nodeId);
+  publishEvent(`node:${nodeId}`, { kind: 'revoke', origin: INSTANCE_ID, nodeId });
+}
+
+function closeNodeConnections(nodeId: string) {
+  deliverToNode(nodeId, { type: 'revoke', nodeId });
+
+  for (const { ws } of queues.get(nodeId) || []) {
+    if (ws.readyState === WebSocket.OPEN) {
+      send(ws, { type: 'revoke', nodeId });
+      ws.close(CloseCode.Revoked, 'Node revoked');
+    }
+  }
+  queues.delete(nodeId);
+
+  for (const [ws, client] of clients.entries()) {
+    if (client.nodeId === nodeId && ws.readyState === WebSocket.OPEN) {
+      ws.close(CloseCode.Revoked, 'Node revoked');
+    }
+  }
+
+  log.info('Node revoked, connections closed', { nodeId });
+}
+
+// Swap the token a registered client authenticated with, keeping its node registration and slot
+function handleReauth(ws: WebSocket, client: Client, data: MessageOf<'reauth'>) {
+  if (!client.nodeId || !client.type) {
+    sendError(ws, 'not_registered', 'Not registered');
+    return;
+  }
+
+  try {
+    const tokenType = client.type === 'publisher' ? 'owner' : 'viewer';
+    const claims = verifyNodeToken(data.token, tokenType, client.nodeId);
+
+    client.token = data.token;
+    send(ws, { type: 'reauthenticated', expiresAt: claims.exp * 1000 });
+  } catch (err) {
+    recordAuthFailure(client, client.nodeId, 'reauth');
+    sendError(ws, 'invalid_token', 'Invalid token');
+  }
+}
+
 function handlePing(ws: WebSocket, client: Client) {
   // Simple ping/pong for connection keepalive
-  ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+  send(ws, { type: 'pong', timestamp: Date.now() });
+}
+
+// Move a node between live and offline, telling its viewers only when the state changes
+async function setNodeLiveness(nodeId: string, liveness: NodeLiveness, lastSeenAt?: Date) {
+  const previous = await nodeStore.get(nodeId);
+  if (!previous || previous.status === 'revoked') return;
+  if (previous.liveness === liveness && !lastSeenAt) return;
+
+  const node = await nodeStore.updateLiveness(nodeId, liveness, lastSeenAt);
+  if (!node || previous.liveness === liveness) return;
+
+  log.info('Node liveness changed', { nodeId, liveness });
+  emitWebhook(liveness === 'live' ? 'node.live' : 'node.offline', nodeId, {
+    lastSeenAt: node.lastSeenAt ? node.lastSeenAt.toISOString() : null,
+  });
+  broadcastToNode(nodeId, {
+    type: 'status',
+    nodeId,
+    status: liveness,
+    lastSeenAt: node.lastSeenAt ? node.lastSeenAt.getTime() : null,
+  }, 'viewer');
+
+  broadcastToProject(node.projectId, {
+    type: 'node-status',
+    projectId: node.projectId,
+    nodeId,
+    status: liveness,
+    lastSeenAt: node.lastSeenAt ? node.lastSeenAt.getTime() : null,
+  });
 }
 
-function handleHeartbeat(ws: WebSocket, client: Client, data: { nodeId: string; payload?: any }) {
+// Mark nodes offline whose publishers stopped heartbeating without closing their socket
+async function sweepLiveness() {
+  const now = Date.now();
+
+  for (const client of clients.values()) {
+    if (client.type !== 'publisher' || !client.nodeId || !client.lastHeartbeatAt) continue;
+    if (now - client.lastHeartbeatAt > HEARTBEAT_TIMEOUT_MS) {
+      await setNodeLiveness(client.nodeId, 'offline');
+    }
+  }
+}
+
+async function handleHeartbeat(ws: WebSocket, client: Client, data: MessageOf<'heartbeat'>) {
   // Broadcast heartbeat from publisher to all viewers of the node
   // This validates the full signaling loop: Desktop -> Server -> Web App
   if (!client.nodeId || client.type !== 'publisher') {
-    ws.send(JSON.stringify({ type: 'error', message: 'Only publishers can send heartbeats' }));
+    sendError(ws, 'forbidden', 'Only publishers can send heartbeats');
     return;
   }
 
-  console.log(`[Heartbeat] from ${client.nodeId}:`, data.payload || 'ping');
+  clientLog(client).debug('Heartbeat', { payload: data.payload });
+
+  const now = Date.now();
+  if (client.lastHeartbeatAt) {
+    heartbeatInterval.observe((now - client.lastHeartbeatAt) / 1000);
+  }
+  // sentAt comes from the publisher's clock; skew can make it look like it's from the future
+  if (data.sentAt !== undefined) {
+    heartbeatLatency.observe(Math.max(0, now - data.sentAt) / 1000);
+  }
+
+  client.lastHeartbeatAt = now;
+  await setNodeLiveness(client.nodeId, 'live', new Date(client.lastHeartbeatAt));
 
   // Broadcast to all viewers of this node
   broadcastToNode(client.nodeId, {
@@ -176,19 +1132,46 @@ function handleHeartbeat(ws: WebSocket, client: Client, data: { nodeId: string;
   }, 'viewer');
 }
 
-function handleDisconnect(ws: WebSocket) {
+async function handleDisconnect(ws: WebSocket) {
   const client = clients.get(ws);
+  clients.delete(ws);
+  if (client) clientLog(client).info('WebSocket disconnected', { durationMs: Date.now() - client.connectedAt });
+  disconnects.inc({ role: client?.type || (client?.queuedFor ? 'queued' : 'unregistered') });
+
+  if (client && client.queuedFor) {
+    dequeueViewer(client.queuedFor, ws);
+  }
+
   if (client && client.nodeId && client.type === 'viewer') {
-    const node = nodes.get(client.nodeId);
-    if (node) {
-      node.viewerCount = Math.max(0, node.viewerCount - 1);
-      broadcastToNode(client.nodeId, {
-        type: 'viewer-count',
-        nodeId: client.nodeId,
-        count: node.viewerCount,
-      }, 'publisher');
+    const node = await nodeStore.get(client.nodeId);
+    if (node && node.status === 'active' && !client.kicked && client.peerId && client.resumeSlotId) {
+      // Hold the slot in case this was a network blip; the publisher hears nothing unless it lapses
+      await nodeStore.suspendViewer(client.nodeId, client.resumeSlotId, Date.now() + RESUME_GRACE_MS);
+      suspendViewer(client.nodeId, client.peerId, client);
+    } else {
+      audit('viewer.left', client.nodeId, {
+        subject: client.subject,
+        remoteAddress: client.address,
+        details: { peerId: client.peerId, ...(client.kicked ? { kicked: true } : {}) },
+      });
+      const viewerCount = await nodeStore.decrementViewers(client.nodeId);
+      await viewerLeft(client.nodeId, client.peerId, viewerCount);
     }
   }
-  clients.delete(ws);
-  console.log('Client disconnected');
+
+  releaseChannels();
+
+  // The node stays live while any other publisher socket for it remains. One on another
+  // instance flips it back to live with its next heartbeat.
+  if (client && client.nodeId && client.type === 'publisher') {
+    audit('publisher.disconnected', client.nodeId, {
+      subject: client.subject,
+      remoteAddress: client.address,
+      details: { peerId: client.peerId },
+    });
+  }
+
+  if (client && client.nodeId && client.type === 'publisher' && !findPeer(client.nodeId, 'publisher')) {
+    await setNodeLiveness(client.nodeId, 'offline');
+  }
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useState, useCallback, useContext, useEffect, useRef } from 'react';
 import {
   TLBaseShape,
   ShapeUtil,
@@ -10,8 +10,23 @@ import {
   Geometry2d,
   Rectangle2d,
 } from '@tldraw/tldraw';
-
-const DESKTOP_HELPER_URL = 'http://localhost:3002';
+import { OWNER_CONTROLLER } from 'tldraw-browser-canvas-protocol';
+import { getOwnerToken } from '@/lib/ownerTokens';
+import {
+  ControlLockedError,
+  DESKTOP_HELPER_URL,
+  NavigationAction,
+  navigateSession,
+  releaseSessionControl,
+  runNavigation,
+  sendSessionInput,
+  setControlGrant,
+} from '@/lib/desktopHelper';
+import { createInputBatcher } from '@/lib/remoteInput';
+import { usePageState } from '@/hooks/usePageState';
+import { PageState, RemoteInputEvent } from '@/types';
+import { NodePresenceContext, ViewerAvatars } from './ViewerAvatars';
+import { RemoteInputSurface } from './RemoteInputSurface';
 
 type BrowserNodeShape = TLBaseShape<
   'browser-node',
@@ -72,9 +87,53 @@ function BrowserNodeComponent({ shape }: { shape: BrowserNodeShape }) {
   const { nodeId, title, w, h } = shape.props;
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [frameUrl, setFrameUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const viewers = useContext(NodePresenceContext)[nodeId] || [];
+  const { pageState, setPageState, controlState, setControlState } = usePageState(nodeId, isConnected);
+  // Interaction mode: pointer, wheel and keys over the stream drive the session
+  const [interacting, setInteracting] = useState(false);
+
+  const batcher = useRef<ReturnType<typeof createInputBatcher> | null>(null);
+  useEffect(() => {
+    const current = createInputBatcher(async (events) => {
+      try {
+        setControlState(await sendSessionInput(nodeId, events));
+      } catch (err) {
+        // Someone else is driving; the header already says who, from the control-state events
+        if (!(err instanceof ControlLockedError)) throw err;
+      }
+    });
+    batcher.current = current;
+    return () => current.dispose();
+  }, [nodeId, setControlState]);
+
+  const handleInput = useCallback((event: RemoteInputEvent) => batcher.current?.push(event), []);
+
+  const toggleInteracting = useCallback(() => {
+    if (interacting) {
+      // Hand control back right away instead of making viewers wait out the idle timeout
+      releaseSessionControl(nodeId).then(setControlState).catch((err) => {
+        console.warn('[Control] Failed to release control:', err);
+      });
+    }
+    setInteracting(!interacting);
+  }, [interacting, nodeId, setControlState]);
+
+  const toggleGrant = useCallback(
+    (peerId: string) => {
+      const granted = !!controlState?.grants.includes(peerId);
+      setControlGrant(nodeId, peerId, !granted).then(setControlState).catch((err) => {
+        console.error('[Control] Failed to change grant:', err);
+      });
+    },
+    [controlState, nodeId, setControlState]
+  );
+
+  const holder = controlState?.holder;
+  const holderName =
+    holder && holder !== OWNER_CONTROLLER
+      ? viewers.find((viewer) => viewer.peerId === holder)?.displayName || 'A viewer'
+      : null;
 
   const handleConnect = useCallback(async () => {
     console.log('[Connect] Starting...');
@@ -95,7 +154,8 @@ function BrowserNodeComponent({ shape }: { shape: BrowserNodeShape }) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           nodeId,
-          ownerToken: 'test',
+          // The helper publishes the window to viewers with this token
+          ownerToken: getOwnerToken(nodeId),
           title: `Browser - ${nodeId.slice(0, 8)}`,
         }),
       });
@@ -115,45 +175,56 @@ function BrowserNodeComponent({ shape }: { shape: BrowserNodeShape }) {
     }
   }, [nodeId]);
 
-  // Poll for frames when connected
-  useEffect(() => {
-    console.log('[Effect] isConnected changed:', isConnected);
-    if (isConnected) {
-      console.log('[Effect] Starting frame polling...');
-      intervalRef.current = setInterval(() => {
-        const url = `${DESKTOP_HELPER_URL}/frame/${nodeId}?t=${Date.now()}`;
-        setFrameUrl(url);
-      }, 100);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-      setFrameUrl(null);
-    }
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
-    };
-  }, [isConnected, nodeId]);
-
   return (
     <HTMLContainer style={{ width: w, height: h, pointerEvents: 'all' }}>
       <div className="w-full h-full bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
-          <span className="text-sm font-medium text-gray-700 truncate">{title}</span>
-          {isConnected && <span className="text-xs text-green-500">● Live</span>}
+          <div className="flex items-center gap-2 min-w-0">
+            {pageState?.favicon && <img src={pageState.favicon} alt="" className="w-4 h-4 shrink-0" />}
+            <span className="text-sm font-medium text-gray-700 truncate">{pageState?.title || title}</span>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <ViewerAvatars
+              viewers={viewers}
+              control={controlState}
+              onToggleControl={isConnected ? toggleGrant : undefined}
+            />
+            {isConnected && holderName && (
+              <span className="text-xs text-amber-600 truncate">{holderName} has control</span>
+            )}
+            {isConnected && (
+              <button
+                type="button"
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={toggleInteracting}
+                title={interacting ? 'Stop controlling the page' : 'Control the page with your mouse and keyboard'}
+                className={`px-2 py-0.5 text-xs rounded ${
+                  interacting ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {interacting ? 'Done' : 'Interact'}
+              </button>
+            )}
+            {isConnected && <span className="text-xs text-green-500">● Live</span>}
+          </div>
         </div>
 
+        {isConnected && <PageToolbar nodeId={nodeId} pageState={pageState} onState={setPageState} />}
+
         {/* Content */}
         <div className="flex-1 relative bg-gray-900">
-          {isConnected && frameUrl ? (
-            <img
-              src={frameUrl}
-              alt="Browser Stream"
-              className="w-full h-full object-contain"
-              onError={(e) => console.error('[Img] Failed to load:', e)}
-            />
+          {isConnected ? (
+            <RemoteInputSurface enabled={interacting} page={controlState} onInput={handleInput}>
+              {/* One long-lived MJPEG response; the helper pushes a frame whenever the page repaints */}
+              <img
+                src={`${DESKTOP_HELPER_URL}/stream/${nodeId}`}
+                alt="Browser Stream"
+                draggable={false}
+                className="w-full h-full object-contain"
+                onError={(e) => console.error('[Img] Stream failed:', e)}
+              />
+            </RemoteInputSurface>
           ) : (
             <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-400">
               {isLoading ? (
@@ -190,4 +261,85 @@ function BrowserNodeComponent({ shape }: { shape: BrowserNodeShape }) {
   );
 }
 
+function PageToolbar({
+  nodeId,
+  pageState,
+  onState,
+}: {
+  nodeId: string;
+  pageState: PageState | null;
+  onState: (state: PageState) => void;
+}) {
+  const [address, setAddress] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the page's real URL unless someone is typing over it
+  useEffect(() => {
+    if (!editing) setAddress(pageState?.url || '');
+  }, [pageState?.url, editing]);
+
+  const run = useCallback(
+    async (request: Promise<PageState>) => {
+      setError(null);
+      try {
+        onState(await request);
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    },
+    [onState]
+  );
+
+  const action = (name: NavigationAction) => () => run(runNavigation(nodeId, name));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!address.trim()) return;
+    setEditing(false);
+    run(navigateSession(nodeId, address));
+  };
+
+  const button = 'px-1.5 text-gray-600 rounded hover:bg-gray-200 disabled:text-gray-300 disabled:hover:bg-transparent';
+
+  return (
+    // Keep clicks and typing here from reaching tldraw, which would select or drag the shape
+    <form
+      onSubmit={handleSubmit}
+      onPointerDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+      className="flex items-center gap-1 px-2 py-1 bg-white border-b border-gray-200 text-sm"
+    >
+      <button type="button" onClick={action('back')} disabled={!pageState?.canGoBack} className={button} title="Back">
+        ←
+      </button>
+      <button type="button" onClick={action('forward')} disabled={!pageState?.canGoForward} className={button} title="Forward">
+        →
+      </button>
+      {pageState?.loading ? (
+        <button type="button" onClick={action('stop')} className={button} title="Stop">
+          ✕
+        </button>
+      ) : (
+        <button type="button" onClick={action('reload')} disabled={!pageState} className={button} title="Reload">
+          ↻
+        </button>
+      )}
+      <input
+        value={address}
+        onChange={(e) => {
+          setEditing(true);
+          setAddress(e.target.value);
+        }}
+        onBlur={() => setEditing(false)}
+        placeholder="Enter a URL"
+        title={error || undefined}
+        className={`flex-1 min-w-0 px-2 py-0.5 border rounded bg-gray-50 focus:outline-none focus:border-blue-400 ${
+          error ? 'border-red-400' : 'border-gray-200'
+        }`}
+      />
+    </form>
+  );
+}
+
 export default BrowserNodeUtil;
@@ -1,14 +1,50 @@
 'use client';
 
-import { useCallback, useState } from 'react';
-import { Tldraw } from '@tldraw/tldraw';
+import { useCallback, useEffect, useState } from 'react';
+import { Editor, Tldraw } from '@tldraw/tldraw';
 import '@tldraw/tldraw/tldraw.css';
 import { BrowserNodeUtil } from './BrowserNode';
+import { NodePresenceContext } from './ViewerAvatars';
+import { createNode } from '@/lib/canvas';
+import { rememberOwnerToken } from '@/lib/ownerTokens';
+import { useProjectNodes } from '@/hooks/useProjectNodes';
+
+const PROJECT_ID = process.env.NEXT_PUBLIC_PROJECT_ID || 'default';
 
 const shapeUtils = [BrowserNodeUtil];
 
+function hasBrowserNode(editor: Editor, nodeId: string) {
+  return editor
+    .getCurrentPageShapes()
+    .some((shape) => shape.type === 'browser-node' && (shape.props as { nodeId?: string }).nodeId === nodeId);
+}
+
 export default function Canvas() {
   const [isCreating, setIsCreating] = useState(false);
+  const [editor, setEditor] = useState<Editor | null>(null);
+  const { nodes: projectNodes, presence } = useProjectNodes(PROJECT_ID);
+
+  // Show nodes other collaborators created in this project
+  useEffect(() => {
+    if (!editor) return;
+
+    projectNodes
+      .filter((node) => node.status === 'active' && !hasBrowserNode(editor, node.nodeId))
+      .forEach((node, i) => {
+        editor.createShape({
+          type: 'browser-node',
+          x: 100 + i * 440,
+          y: 100,
+          props: {
+            w: 400,
+            h: 300,
+            nodeId: node.nodeId,
+            title: 'Browser Session',
+          },
+        });
+        console.log('Added remote browser node:', node.nodeId);
+      });
+  }, [editor, projectNodes]);
 
   const handleCreateBrowserNode = useCallback(async () => {
     setIsCreating(true);
@@ -16,7 +52,12 @@ export default function Canvas() {
       const editor = (window as any).__tldraw_editor;
       if (!editor) return;
 
-      const nodeId = crypto.randomUUID();
+      const { nodeId, ownerToken } = await createNode(PROJECT_ID);
+      rememberOwnerToken(nodeId, ownerToken);
+
+      // The node-created event can beat the REST response and already have added the shape
+      if (hasBrowserNode(editor, nodeId)) return;
+
       const { x, y } = editor.inputs.currentPagePoint;
 
       editor.createShape({
@@ -42,22 +83,25 @@ export default function Canvas() {
 
   return (
     <div className="tldraw__editor">
-      <Tldraw
-        shapeUtils={shapeUtils}
-        onMount={(editor) => {
-          (window as any).__tldraw_editor = editor;
-        }}
-      >
-        <div className="absolute top-4 right-4 z-50">
-          <button
-            onClick={handleCreateBrowserNode}
-            disabled={isCreating}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg shadow-lg hover:bg-blue-700 disabled:opacity-50"
-          >
-            {isCreating ? 'Creating...' : '+ Add Browser'}
-          </button>
-        </div>
-      </Tldraw>
+      <NodePresenceContext.Provider value={presence}>
+        <Tldraw
+          shapeUtils={shapeUtils}
+          onMount={(editor) => {
+            (window as any).__tldraw_editor = editor;
+            setEditor(editor);
+          }}
+        >
+          <div className="absolute top-4 right-4 z-50">
+            <button
+              onClick={handleCreateBrowserNode}
+              disabled={isCreating}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg shadow-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isCreating ? 'Creating...' : '+ Add Browser'}
+            </button>
+          </div>
+        </Tldraw>
+      </NodePresenceContext.Provider>
     </div>
   );
 }
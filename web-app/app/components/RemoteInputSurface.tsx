@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { RemoteInputEvent } from '@/types';
+import { PageSize, keyInput, pointerInput, wheelInput } from '@/lib/remoteInput';
+
+// Wraps a node's stream. While `enabled`, pointer, wheel and key events over it are mapped
+// to page coordinates and handed to `onInput` instead of reaching tldraw; click it first
+// to give it keyboard focus.
+export function RemoteInputSurface({
+  enabled,
+  page,
+  onInput,
+  children,
+}: {
+  enabled: boolean;
+  // The session's viewport size; input is dropped until it's known
+  page: PageSize | null;
+  onInput: (event: RemoteInputEvent) => void;
+  children: React.ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const active = enabled && !!page;
+
+  // Latest values for the native wheel listener, which is only attached once
+  const latest = useRef({ page, onInput });
+  latest.current = { page, onInput };
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !active) return;
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const { page, onInput } = latest.current;
+      const input = page && wheelInput(event, element, page);
+      if (input) onInput(input);
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, [active]);
+
+  if (!active) {
+    return <div className="w-full h-full">{children}</div>;
+  }
+
+  const pointer = (type: 'mouseDown' | 'mouseUp' | 'mouseMove') => (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (type === 'mouseDown') {
+      event.currentTarget.focus();
+      // Keep the drag's moves and release coming here even once it leaves the node
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    const input = pointerInput(type, event, page!);
+    if (input) onInput(input);
+  };
+
+  const key = (type: 'keyDown' | 'keyUp') => (event: React.KeyboardEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const input = keyInput(type, event);
+    if (input) onInput(input);
+  };
+
+  return (
+    <div
+      ref={ref}
+      tabIndex={0}
+      onPointerDown={pointer('mouseDown')}
+      onPointerMove={pointer('mouseMove')}
+      onPointerUp={pointer('mouseUp')}
+      onKeyDown={key('keyDown')}
+      onKeyUp={key('keyUp')}
+      onContextMenu={(event) => event.preventDefault()}
+      className="w-full h-full cursor-default outline-none focus:ring-2 focus:ring-inset focus:ring-blue-400"
+    >
+      {children}
+    </div>
+  );
+}
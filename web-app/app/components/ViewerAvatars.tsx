@@ -0,0 +1,84 @@
+'use client';
+
+import React, { createContext } from 'react';
+import { ControlState, ViewerInfo } from '@/types';
+
+// Avatars beyond this collapse into a "+N" badge
+const MAX_AVATARS = 4;
+
+// For viewers who didn't pick a color
+const FALLBACK_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+// Who is watching each node, by nodeId; provided by the canvas from project presence events
+export const NodePresenceContext = createContext<Record<string, ViewerInfo[]>>({});
+
+function initials(displayName: string | null): string {
+  if (!displayName) return '?';
+  const words = displayName.trim().split(/\s+/);
+  return words.slice(0, 2).map((word) => word[0].toUpperCase()).join('');
+}
+
+function fallbackColor(peerId: string): string {
+  let hash = 0;
+  for (const char of peerId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return FALLBACK_COLORS[Math.abs(hash) % FALLBACK_COLORS.length];
+}
+
+// With `onToggleControl` (the owner's canvas), clicking an avatar grants or revokes that
+// viewer's control of the session. Granted viewers get a ring; the one driving, a green one.
+export function ViewerAvatars({
+  viewers,
+  control,
+  onToggleControl,
+}: {
+  viewers: ViewerInfo[];
+  control?: ControlState | null;
+  onToggleControl?: (peerId: string) => void;
+}) {
+  if (viewers.length === 0) return null;
+
+  const shown = viewers.slice(0, MAX_AVATARS);
+  const hidden = viewers.length - shown.length;
+
+  return (
+    <div className="flex -space-x-1.5">
+      {shown.map((viewer) => {
+        const name = viewer.displayName || 'Anonymous viewer';
+        const granted = !!control?.grants.includes(viewer.peerId);
+        const driving = control?.holder === viewer.peerId;
+        const ring = driving ? 'ring-2 ring-green-500' : granted ? 'ring-2 ring-blue-500' : '';
+
+        return onToggleControl ? (
+          <button
+            key={viewer.peerId}
+            type="button"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => onToggleControl(viewer.peerId)}
+            title={granted ? `${name} can control (click to revoke)` : `${name} (click to allow control)`}
+            className={`w-5 h-5 rounded-full border border-white flex items-center justify-center text-[9px] font-semibold text-white ${ring}`}
+            style={{ backgroundColor: viewer.color || fallbackColor(viewer.peerId) }}
+          >
+            {initials(viewer.displayName)}
+          </button>
+        ) : (
+          <span
+            key={viewer.peerId}
+            title={name}
+            className={`w-5 h-5 rounded-full border border-white flex items-center justify-center text-[9px] font-semibold text-white ${ring}`}
+            style={{ backgroundColor: viewer.color || fallbackColor(viewer.peerId) }}
+          >
+            {initials(viewer.displayName)}
+          </span>
+        );
+      })}
+      {hidden > 0 && (
+        <span
+          title={viewers.slice(MAX_AVATARS).map((viewer) => viewer.displayName || 'Anonymous viewer').join(', ')}
+          className="w-5 h-5 rounded-full border border-white bg-gray-400 flex items-center justify-center text-[9px] font-semibold text-white"
+        >
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
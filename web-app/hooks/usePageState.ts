@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ControlState, PageState } from '@/types';
+import { pageStateEvents } from '@/lib/desktopHelper';
+
+// Follows what a desktop helper session is showing, and who is driving it, while
+// `enabled`. EventSource reconnects on its own if the helper restarts; the first events
+// are the current state.
+export function usePageState(nodeId: string, enabled: boolean) {
+  const [pageState, setPageState] = useState<PageState | null>(null);
+  const [controlState, setControlState] = useState<ControlState | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setPageState(null);
+      setControlState(null);
+      return;
+    }
+
+    const events = pageStateEvents(nodeId);
+    events.addEventListener('page-state', (event) => {
+      setPageState(JSON.parse((event as MessageEvent).data));
+    });
+    events.addEventListener('control-state', (event) => {
+      setControlState(JSON.parse((event as MessageEvent).data));
+    });
+    events.onerror = () => {
+      console.warn('[PageState] Event stream interrupted');
+    };
+
+    return () => events.close();
+  }, [nodeId, enabled]);
+
+  return { pageState, setPageState, controlState, setControlState };
+}
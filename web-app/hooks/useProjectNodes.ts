@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { parseServerMessage } from 'tldraw-browser-canvas-protocol';
+import { ProjectNode, ViewerInfo } from '@/types';
+import { listProjectNodes } from '@/lib/canvas';
+
+const SIGNALING_URL = process.env.NEXT_PUBLIC_SIGNALING_URL || 'ws://localhost:3001';
+
+// Keeps the list of a project's nodes current: initial fetch, then live project events.
+// `presence` holds who is watching each node, by nodeId.
+export function useProjectNodes(projectId: string) {
+  const [nodes, setNodes] = useState<ProjectNode[]>([]);
+  const [presence, setPresence] = useState<Record<string, ViewerInfo[]>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listProjectNodes(projectId)
+      .then((initial) => {
+        if (cancelled) return;
+        // Events may have arrived before the list; keep whichever entries we already have
+        setNodes((current) => {
+          const known = new Set(current.map((node) => node.nodeId));
+          return [...current, ...initial.filter((node) => !known.has(node.nodeId))];
+        });
+      })
+      .catch((err) => {
+        console.error('[Project] Failed to list nodes:', err);
+        setError('Failed to list project nodes');
+      });
+
+    const ws = new WebSocket(`${SIGNALING_URL}/signal`);
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: 'subscribe-project', projectId }));
+    };
+
+    ws.onmessage = (event) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch (err) {
+        console.error('Failed to parse project message:', err);
+        return;
+      }
+
+      const parsed = parseServerMessage(data);
+      if (!parsed.ok) {
+        console.error('[Project] Ignoring invalid message:', parsed.error);
+        return;
+      }
+
+      const msg = parsed.message;
+
+      switch (msg.type) {
+        case 'node-created':
+          setNodes((current) =>
+            current.some((node) => node.nodeId === msg.node.nodeId) ? current : [...current, msg.node]
+          );
+          break;
+        case 'node-status':
+          setNodes((current) =>
+            current.map((node) =>
+              node.nodeId === msg.nodeId && msg.status !== 'connecting'
+                ? {
+                    ...node,
+                    liveness: msg.status,
+                    lastSeenAt: msg.lastSeenAt ? new Date(msg.lastSeenAt).toISOString() : node.lastSeenAt,
+                  }
+                : node
+            )
+          );
+          break;
+        case 'node-revoked':
+          setNodes((current) =>
+            current.map((node) => (node.nodeId === msg.nodeId ? { ...node, status: 'revoked' } : node))
+          );
+          setPresence((current) => ({ ...current, [msg.nodeId]: [] }));
+          break;
+        case 'node-presence':
+          setPresence((current) => ({ ...current, [msg.nodeId]: msg.viewers }));
+          break;
+      }
+    };
+
+    ws.onerror = (err) => {
+      console.error('[Project] Subscription error:', err);
+      setError('Project subscription error');
+    };
+
+    return () => {
+      cancelled = true;
+      ws.close();
+    };
+  }, [projectId]);
+
+  return { nodes, presence, error };
+}
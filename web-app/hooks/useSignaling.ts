@@ -1,16 +1,32 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { SignalMessage } from '@/types';
+import { CloseCode, PROTOCOL_VERSION, parseServerMessage } from 'tldraw-browser-canvas-protocol';
+import { ClientMessage, ServerMessage } from '@/types';
+import { refreshToken } from '@/lib/canvas';
+import { decodeToken } from '@/lib/token';
 
 const SIGNALING_URL = process.env.NEXT_PUBLIC_SIGNALING_URL || 'ws://localhost:3001';
 
+// Renew tokens this long before they expire
+const REFRESH_MARGIN_MS = 60_000;
+// Wait before reconnecting a dropped viewer; the server holds its slot for 30s by default
+const RECONNECT_DELAY_MS = 1_000;
+// Closes the server means as final; anything else is worth a resume
+const FINAL_CLOSE_CODES: number[] = [
+  CloseCode.Revoked,
+  CloseCode.UnsupportedProtocol,
+  CloseCode.RateLimited,
+  CloseCode.Kicked,
+];
+
 interface UseSignalingOptions {
   nodeId?: string;
   token?: string;
-  onMessage?: (msg: SignalMessage) => void;
+  onMessage?: (msg: ServerMessage) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
+  onTokenRefresh?: (token: string) => void;
 }
 
 export function useSignaling({
@@ -19,14 +35,25 @@ export function useSignaling({
   onMessage,
   onConnect,
   onDisconnect,
+  onTokenRefresh,
 }: UseSignalingOptions) {
   const wsRef = useRef<WebSocket | null>(null);
+  // Latest token, so reconnects after a refresh use the renewed one
+  const tokenRef = useRef(token);
+  // Set by the server's `connected` reply to viewers; lets a dropped socket reclaim its slot
+  const resumeTokenRef = useRef<string | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Delay the server suggested in `server-restarting`; the next close reconnects after it
+  const restartDelayRef = useRef<number | null>(null);
+  // Cleared when the caller disconnects on purpose, so onclose doesn't reconnect
+  const shouldReconnectRef = useRef(false);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const connect = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) return;
 
+    shouldReconnectRef.current = true;
     const ws = new WebSocket(`${SIGNALING_URL}/signal`);
 
     ws.onopen = () => {
@@ -35,44 +62,106 @@ export function useSignaling({
       onConnect?.();
 
       // Send initial message based on token type
-      if (token && nodeId) {
-        // Determine if owner or viewer based on token structure
-        // Owner tokens start with 'owner_', viewer tokens start with 'viewer_'
-        if (token.startsWith('owner_')) {
+      const currentToken = tokenRef.current;
+      if (currentToken && nodeId) {
+        // Determine if owner or viewer from the token's type claim
+        if (decodeToken(currentToken)?.type === 'owner') {
           ws.send(JSON.stringify({
             type: 'publish',
             nodeId,
-            ownerToken: token,
+            ownerToken: currentToken,
+            protocolVersion: PROTOCOL_VERSION,
+          }));
+        } else if (resumeTokenRef.current) {
+          console.log('[Signaling] Resuming viewer session');
+          ws.send(JSON.stringify({
+            type: 'resume',
+            nodeId,
+            viewerToken: currentToken,
+            resumeToken: resumeTokenRef.current,
+            protocolVersion: PROTOCOL_VERSION,
           }));
         } else {
           console.log('[Signaling] Sending join message as viewer');
           ws.send(JSON.stringify({
             type: 'join',
             nodeId,
-            viewerToken: token,
+            viewerToken: currentToken,
+            protocolVersion: PROTOCOL_VERSION,
           }));
         }
       }
     };
 
     ws.onmessage = (event) => {
+      let data: unknown;
       try {
-        const msg: SignalMessage = JSON.parse(event.data);
-
-        // Log heartbeats for debugging signaling loop
-        if (msg.type === 'heartbeat') {
-          console.log('[Heartbeat] received from desktop:', msg);
-        }
-
-        onMessage?.(msg);
+        data = JSON.parse(event.data);
       } catch (err) {
         console.error('Failed to parse signal message:', err);
+        return;
+      }
+
+      const parsed = parseServerMessage(data);
+      if (!parsed.ok) {
+        console.error('[Signaling] Ignoring invalid message:', parsed.error);
+        return;
+      }
+
+      const msg = parsed.message;
+
+      if (msg.type === 'connected' && msg.resumeToken) {
+        resumeTokenRef.current = msg.resumeToken;
+      }
+
+      if (msg.type === 'server-restarting') {
+        console.log(`[Signaling] Server restarting, reconnecting in ${msg.reconnectInMs}ms`);
+        restartDelayRef.current = msg.reconnectInMs;
+      }
+
+      // The held slot lapsed; fall back to a fresh join
+      if (msg.type === 'error' && msg.code === 'resume_failed' && nodeId && tokenRef.current) {
+        resumeTokenRef.current = null;
+        ws.send(JSON.stringify({
+          type: 'join',
+          nodeId,
+          viewerToken: tokenRef.current,
+          protocolVersion: PROTOCOL_VERSION,
+        }));
       }
+
+      // Log heartbeats for debugging signaling loop
+      if (msg.type === 'heartbeat') {
+        console.log('[Heartbeat] received from desktop:', msg);
+      }
+
+      onMessage?.(msg);
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
+      if (event.code === CloseCode.UnsupportedProtocol) {
+        setError('Signaling server does not support this client version; reload the page');
+      } else if (event.code === CloseCode.RateLimited) {
+        setError('Disconnected for sending too many messages');
+      } else if (event.code === CloseCode.Kicked) {
+        setError('Removed from this session by its owner');
+      }
       setIsConnected(false);
       onDisconnect?.();
+
+      if (wsRef.current !== ws) return;
+      const restartDelay = restartDelayRef.current;
+      restartDelayRef.current = null;
+
+      if (FINAL_CLOSE_CODES.includes(event.code)) {
+        resumeTokenRef.current = null;
+      } else if (shouldReconnectRef.current && restartDelay !== null) {
+        // Publishers publish again, viewers resume (or join if they never got a resume token)
+        reconnectTimerRef.current = setTimeout(connect, restartDelay);
+      } else if (shouldReconnectRef.current && resumeTokenRef.current) {
+        console.log('[Signaling] Connection dropped, resuming shortly');
+        reconnectTimerRef.current = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
     };
 
     ws.onerror = (err) => {
@@ -81,20 +170,65 @@ export function useSignaling({
     };
 
     wsRef.current = ws;
-  }, [nodeId, token, onMessage, onConnect, onDisconnect]);
+  }, [nodeId, onMessage, onConnect, onDisconnect]);
 
   const disconnect = useCallback(() => {
+    shouldReconnectRef.current = false;
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    resumeTokenRef.current = null;
     wsRef.current?.close();
     wsRef.current = null;
     setIsConnected(false);
   }, []);
 
-  const send = useCallback((msg: SignalMessage) => {
+  const send = useCallback((msg: ClientMessage) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify(msg));
     }
   }, []);
 
+  useEffect(() => {
+    tokenRef.current = token;
+  }, [token]);
+
+  // Renew the token shortly before it expires and hand the fresh one to the open socket
+  useEffect(() => {
+    if (!nodeId || !tokenRef.current) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const schedule = (current: string) => {
+      const claims = decodeToken(current);
+      if (!claims) return;
+
+      const delay = Math.max(0, claims.exp * 1000 - Date.now() - REFRESH_MARGIN_MS);
+      timer = setTimeout(async () => {
+        try {
+          const { token: fresh } = await refreshToken(nodeId, current);
+          if (cancelled) return;
+
+          tokenRef.current = fresh;
+          if (wsRef.current?.readyState === WebSocket.OPEN) {
+            wsRef.current.send(JSON.stringify({ type: 'reauth', token: fresh }));
+          }
+          onTokenRefresh?.(fresh);
+          schedule(fresh);
+        } catch (err) {
+          console.error('[Signaling] Token refresh failed:', err);
+          setError('Token refresh failed');
+        }
+      }, delay);
+    };
+
+    schedule(tokenRef.current);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [nodeId, token, onTokenRefresh]);
+
   useEffect(() => {
     return () => {
       disconnect();
@@ -1,26 +1,42 @@
 'use client';
 
 import { useRef, useState, useCallback } from 'react';
-import { SignalMessage } from '@/types';
+import { parseInputChannelMessage } from 'tldraw-browser-canvas-protocol';
+import { ControlState, InputChannelMessage, InputRejection, RemoteInputEvent, SignalMessage } from '@/types';
+import { getIceServers } from '@/lib/canvas';
+
+// Used when there's no token to fetch credentials with, or the fetch fails
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
 
 interface UseWebRTCOptions {
   nodeId: string;
+  // Owner or viewer token, used to fetch short-lived TURN credentials
+  token?: string;
   onRemoteStream?: (stream: MediaStream) => void;
   onIceCandidate?: (candidate: RTCIceCandidate) => void;
 }
 
-export function useWebRTC({ nodeId, onRemoteStream, onIceCandidate }: UseWebRTCOptions) {
+export function useWebRTC({ nodeId, token, onRemoteStream, onIceCandidate }: UseWebRTCOptions) {
   const pcRef = useRef<RTCPeerConnection | null>(null);
+  const inputChannelRef = useRef<RTCDataChannel | null>(null);
   const [connectionState, setConnectionState] = useState<RTCPeerConnectionState>('new');
+  // Who may drive the session, as the publisher reports it over the input channel
+  const [controlState, setControlState] = useState<ControlState | null>(null);
+  // Why our last input was refused; cleared once the control state changes
+  const [inputRejection, setInputRejection] = useState<InputRejection | null>(null);
 
-  const createPeerConnection = useCallback(() => {
+  const createPeerConnection = useCallback(async () => {
     console.log('[WebRTC] Creating peer connection...');
-    const pc = new RTCPeerConnection({
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        // TURN server config would go here
-      ],
-    });
+    let iceServers = FALLBACK_ICE_SERVERS;
+    if (token) {
+      try {
+        ({ iceServers } = await getIceServers(nodeId, token));
+      } catch (err) {
+        console.error('[WebRTC] Failed to fetch ICE servers, using STUN only:', err);
+      }
+    }
+
+    const pc = new RTCPeerConnection({ iceServers });
 
     pc.onconnectionstatechange = () => {
       console.log('[WebRTC] Connection state changed:', pc.connectionState);
@@ -59,12 +75,36 @@ export function useWebRTC({ nodeId, onRemoteStream, onIceCandidate }: UseWebRTCO
       }
     };
 
+    // Carries our input to the publisher once the owner grants us control. Created before
+    // the offer so it's part of the first negotiation.
+    const inputChannel = pc.createDataChannel('input');
+    inputChannel.onmessage = (event) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      const parsed = parseInputChannelMessage(data);
+      if (!parsed.ok) {
+        console.warn('[WebRTC] Ignoring invalid input channel message:', parsed.error);
+        return;
+      }
+      if (parsed.message.type === 'control') {
+        setControlState(parsed.message.state);
+        setInputRejection(null);
+      } else if (parsed.message.type === 'input-rejected') {
+        setInputRejection(parsed.message.reason);
+      }
+    };
+    inputChannelRef.current = inputChannel;
+
     pcRef.current = pc;
     return pc;
-  }, [nodeId, onRemoteStream, onIceCandidate]);
+  }, [nodeId, token, onRemoteStream, onIceCandidate]);
 
   const createOffer = useCallback(async (): Promise<RTCSessionDescriptionInit> => {
-    const pc = pcRef.current || createPeerConnection();
+    const pc = pcRef.current || await createPeerConnection();
     const offer = await pc.createOffer();
     await pc.setLocalDescription(offer);
     return offer;
@@ -78,7 +118,7 @@ export function useWebRTC({ nodeId, onRemoteStream, onIceCandidate }: UseWebRTCO
 
   const handleOffer = useCallback(async (sdp: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> => {
     console.log('[WebRTC] Received offer, creating answer...');
-    const pc = pcRef.current || createPeerConnection();
+    const pc = pcRef.current || await createPeerConnection();
     await pc.setRemoteDescription(new RTCSessionDescription(sdp));
     console.log('[WebRTC] Remote description set (offer)');
     const answer = await pc.createAnswer();
@@ -93,9 +133,27 @@ export function useWebRTC({ nodeId, onRemoteStream, onIceCandidate }: UseWebRTCO
     await pc.addIceCandidate(new RTCIceCandidate(candidate));
   }, []);
 
+  const sendOnInputChannel = useCallback((msg: InputChannelMessage) => {
+    const channel = inputChannelRef.current;
+    if (channel?.readyState === 'open') {
+      channel.send(JSON.stringify(msg));
+    }
+  }, []);
+
+  // Coordinates are page pixels; see controlState's width/height
+  const sendInput = useCallback((events: RemoteInputEvent[]) => {
+    sendOnInputChannel({ type: 'input', events });
+  }, [sendOnInputChannel]);
+
+  const releaseControl = useCallback(() => {
+    sendOnInputChannel({ type: 'release' });
+  }, [sendOnInputChannel]);
+
   const close = useCallback(() => {
     pcRef.current?.close();
     pcRef.current = null;
+    inputChannelRef.current = null;
+    setControlState(null);
     setConnectionState('closed');
   }, []);
 
@@ -104,7 +162,7 @@ export function useWebRTC({ nodeId, onRemoteStream, onIceCandidate }: UseWebRTCO
     console.log('[WebRTC] Viewer connecting...');
     // For viewers, we just need to be ready to receive offers
     // The actual connection starts when we get an offer from the publisher
-    createPeerConnection();
+    await createPeerConnection();
   }, [createPeerConnection]);
 
   return {
@@ -115,5 +173,9 @@ export function useWebRTC({ nodeId, onRemoteStream, onIceCandidate }: UseWebRTCO
     addIceCandidate,
     connect,
     close,
+    controlState,
+    inputRejection,
+    sendInput,
+    releaseControl,
   };
 }
@@ -1,27 +1,60 @@
+import { IceServersResponse, ProjectNode, ViewerTokenResponse } from '@/types';
+
 // API client
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
-export async function createNode(projectId: string): Promise<{ nodeId: string; ownerToken: string }> {
+export async function createNode(projectId: string, maxViewers?: number): Promise<{ nodeId: string; ownerToken: string }> {
   const res = await fetch(`${API_URL}/nodes`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ projectId }),
+    body: JSON.stringify({ projectId, maxViewers }),
   });
   if (!res.ok) throw new Error('Failed to create node');
   return res.json();
 }
 
-export async function getViewerToken(nodeId: string): Promise<{ viewerToken: string }> {
+export async function listProjectNodes(projectId: string): Promise<ProjectNode[]> {
+  const res = await fetch(`${API_URL}/projects/${projectId}/nodes`);
+  if (!res.ok) throw new Error('Failed to list project nodes');
+  const { nodes } = await res.json();
+  return nodes;
+}
+
+// `displayName` and `color` (#rrggbb) identify the viewer in the node's presence list
+export async function getViewerToken(
+  nodeId: string,
+  identity: { displayName?: string; color?: string } = {}
+): Promise<ViewerTokenResponse> {
   const res = await fetch(`${API_URL}/nodes/${nodeId}/viewer-token`, {
     method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(identity),
   });
   if (!res.ok) throw new Error('Failed to get viewer token');
   return res.json();
 }
 
-export async function revokeNode(nodeId: string): Promise<void> {
+export async function refreshToken(nodeId: string, token: string): Promise<{ token: string; expiresAt: number }> {
+  const res = await fetch(`${API_URL}/nodes/${nodeId}/refresh`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error('Failed to refresh token');
+  return res.json();
+}
+
+export async function getIceServers(nodeId: string, token: string): Promise<IceServersResponse> {
+  const res = await fetch(`${API_URL}/nodes/${nodeId}/ice-servers`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error('Failed to get ICE servers');
+  return res.json();
+}
+
+export async function revokeNode(nodeId: string, ownerToken: string): Promise<void> {
   const res = await fetch(`${API_URL}/nodes/${nodeId}/revoke`, {
     method: 'POST',
+    headers: { Authorization: `Bearer ${ownerToken}` },
   });
   if (!res.ok) throw new Error('Failed to revoke node');
 }
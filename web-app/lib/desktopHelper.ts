@@ -0,0 +1,69 @@
+import { ControlState, InputRejection, PageState, RemoteInputEvent } from '@/types';
+
+// Desktop helper client: the local Electron app that hosts browser sessions
+export const DESKTOP_HELPER_URL = process.env.NEXT_PUBLIC_DESKTOP_HELPER_URL || 'http://localhost:3002';
+
+export type NavigationAction = 'back' | 'forward' | 'reload' | 'stop';
+
+async function readState<T = PageState>(res: Response, fallback: string): Promise<T> {
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || fallback);
+  }
+  return res.json();
+}
+
+// Bare hosts are fine; the helper adds https://
+export async function navigateSession(nodeId: string, url: string): Promise<PageState> {
+  const res = await fetch(`${DESKTOP_HELPER_URL}/sessions/${nodeId}/navigate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url }),
+  });
+  return readState(res, 'Failed to navigate');
+}
+
+export async function runNavigation(nodeId: string, action: NavigationAction): Promise<PageState> {
+  const res = await fetch(`${DESKTOP_HELPER_URL}/sessions/${nodeId}/${action}`, { method: 'POST' });
+  return readState(res, `Failed to ${action}`);
+}
+
+// Refused because another participant holds control
+export class ControlLockedError extends Error {
+  constructor(public reason: InputRejection, public holder: string | null) {
+    super('Someone else has control');
+    this.name = 'ControlLockedError';
+  }
+}
+
+// Drive the session as its owner; the owner's events always pass unless someone else holds control
+export async function sendSessionInput(nodeId: string, events: RemoteInputEvent[]): Promise<ControlState> {
+  const res = await fetch(`${DESKTOP_HELPER_URL}/sessions/${nodeId}/input`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ events }),
+  });
+  if (res.status === 409) {
+    const { code, holder } = await res.json();
+    throw new ControlLockedError(code, holder);
+  }
+  return readState<ControlState>(res, 'Failed to send input');
+}
+
+export async function releaseSessionControl(nodeId: string): Promise<ControlState> {
+  const res = await fetch(`${DESKTOP_HELPER_URL}/sessions/${nodeId}/control/release`, { method: 'POST' });
+  return readState<ControlState>(res, 'Failed to release control');
+}
+
+// Let the viewer with `peerId` drive the session, or stop letting it
+export async function setControlGrant(nodeId: string, peerId: string, granted: boolean): Promise<ControlState> {
+  const res = await fetch(`${DESKTOP_HELPER_URL}/sessions/${nodeId}/control/grants/${peerId}`, {
+    method: granted ? 'PUT' : 'DELETE',
+  });
+  return readState<ControlState>(res, 'Failed to change control');
+}
+
+// Server-sent `page-state` and `control-state` events, starting with the current ones
+export function pageStateEvents(nodeId: string): EventSource {
+  return new EventSource(`${DESKTOP_HELPER_URL}/sessions/${nodeId}/events`);
+}
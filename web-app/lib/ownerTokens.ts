@@ -0,0 +1,11 @@
+// Owner tokens for nodes created in this tab. Kept out of shape props so they
+// never sync to other collaborators on the canvas.
+const ownerTokens = new Map<string, string>();
+
+export function rememberOwnerToken(nodeId: string, ownerToken: string) {
+  ownerTokens.set(nodeId, ownerToken);
+}
+
+export function getOwnerToken(nodeId: string): string | undefined {
+  return ownerTokens.get(nodeId);
+}
@@ -0,0 +1,135 @@
+import { Modifier, MouseButton, RemoteInputEvent } from '@/types';
+
+// Maps DOM events on a node's stream to session input. The stream is drawn with
+// object-contain, so it may be letterboxed inside its element; coordinates are mapped
+// from the drawn area onto the session's page size.
+
+const BUTTONS: Record<number, MouseButton> = { 0: 'left', 1: 'middle', 2: 'right' };
+// WheelEvent.deltaMode line and page deltas, converted to pixels
+const LINE_HEIGHT_PX = 16;
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export function modifiersOf(event: { shiftKey: boolean; ctrlKey: boolean; altKey: boolean; metaKey: boolean }): Modifier[] {
+  const modifiers: Modifier[] = [];
+  if (event.shiftKey) modifiers.push('shift');
+  if (event.ctrlKey) modifiers.push('control');
+  if (event.altKey) modifiers.push('alt');
+  if (event.metaKey) modifiers.push('meta');
+  return modifiers;
+}
+
+// Page coordinates of a client point over `element`, clamped to the page. `inside` is
+// false over the letterbox or, during a captured drag, outside the element.
+export function toPagePoint(
+  element: Element,
+  clientX: number,
+  clientY: number,
+  page: PageSize
+): { x: number; y: number; inside: boolean } | null {
+  const rect = element.getBoundingClientRect();
+  const scale = Math.min(rect.width / page.width, rect.height / page.height);
+  if (!scale) return null;
+
+  const left = rect.left + (rect.width - page.width * scale) / 2;
+  const top = rect.top + (rect.height - page.height * scale) / 2;
+  const x = (clientX - left) / scale;
+  const y = (clientY - top) / scale;
+  return {
+    x: Math.min(page.width, Math.max(0, x)),
+    y: Math.min(page.height, Math.max(0, y)),
+    inside: x >= 0 && y >= 0 && x <= page.width && y <= page.height,
+  };
+}
+
+export function pointerInput(
+  type: 'mouseDown' | 'mouseUp' | 'mouseMove',
+  event: React.PointerEvent,
+  page: PageSize
+): RemoteInputEvent | null {
+  const point = toPagePoint(event.currentTarget, event.clientX, event.clientY, page);
+  if (!point) return null;
+  // Drags and releases that stray off the page still have to reach it, or the button stays held
+  if (!point.inside && type === 'mouseDown') return null;
+  if (!point.inside && type === 'mouseMove' && event.buttons === 0) return null;
+
+  const { x, y } = point;
+  const modifiers = modifiersOf(event);
+  if (type === 'mouseMove') return { type, x, y, modifiers };
+
+  const button = BUTTONS[event.button];
+  if (!button) return null;
+  return { type, x, y, button, clickCount: Math.max(1, event.detail), modifiers };
+}
+
+// A native event: React's wheel listeners are passive, and scrolling must not reach the canvas
+export function wheelInput(event: WheelEvent, element: Element, page: PageSize): RemoteInputEvent | null {
+  const point = toPagePoint(element, event.clientX, event.clientY, page);
+  if (!point?.inside) return null;
+
+  const unit = event.deltaMode === 1 ? LINE_HEIGHT_PX : event.deltaMode === 2 ? page.height : 1;
+  return {
+    type: 'mouseWheel',
+    x: point.x,
+    y: point.y,
+    deltaX: event.deltaX * unit,
+    deltaY: event.deltaY * unit,
+    modifiers: modifiersOf(event),
+  };
+}
+
+export function keyInput(type: 'keyDown' | 'keyUp', event: React.KeyboardEvent): RemoteInputEvent | null {
+  // Dead keys and IME composition have no key of their own to replay
+  if (event.key === 'Dead' || event.key === 'Process' || event.nativeEvent.isComposing) return null;
+  return { type, key: event.key, modifiers: modifiersOf(event) };
+}
+
+// Collects events and sends them one batch at a time, at most once per animation frame.
+// Consecutive moves collapse into the newest, so a slow link falls behind by a frame at
+// most rather than replaying a backlog of stale cursor positions.
+export function createInputBatcher(send: (events: RemoteInputEvent[]) => Promise<void>) {
+  let pending: RemoteInputEvent[] = [];
+  let inFlight = false;
+  let frame: number | null = null;
+
+  const flush = async () => {
+    frame = null;
+    if (inFlight || pending.length === 0) return;
+
+    const events = pending;
+    pending = [];
+    inFlight = true;
+    try {
+      await send(events);
+    } catch (err) {
+      console.warn('[Input] Failed to send input:', err);
+    } finally {
+      inFlight = false;
+      if (pending.length > 0) schedule();
+    }
+  };
+
+  const schedule = () => {
+    if (frame === null) frame = requestAnimationFrame(flush);
+  };
+
+  return {
+    push(event: RemoteInputEvent) {
+      const last = pending[pending.length - 1];
+      if (event.type === 'mouseMove' && last?.type === 'mouseMove') {
+        pending[pending.length - 1] = event;
+      } else {
+        pending.push(event);
+      }
+      schedule();
+    },
+    dispose() {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      pending = [];
+    },
+  };
+}
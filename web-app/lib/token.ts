@@ -0,0 +1,18 @@
+// Client-side view of the JWTs issued by the signaling server.
+// Decoding is unverified: only use it for routing and scheduling, never for trust decisions.
+export interface TokenClaims {
+  type: 'owner' | 'viewer';
+  nodeId: string;
+  projectId: string;
+  // Expiry in seconds since epoch
+  exp: number;
+}
+
+export function decodeToken(token: string): TokenClaims | null {
+  try {
+    const payload = token.split('.')[1];
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return null;
+  }
+}
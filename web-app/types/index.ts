@@ -1,5 +1,21 @@
-// Browser node status
-export type NodeStatus = 'idle' | 'connecting' | 'live' | 'offline';
+import type { NodeStatus } from 'tldraw-browser-canvas-protocol';
+
+// Node, message, input and error types shared with the signaling server and desktop helper
+export type {
+  ClientMessage,
+  ControlState,
+  ErrorCode,
+  InputChannelMessage,
+  InputRejection,
+  Modifier,
+  MouseButton,
+  NodeStatus,
+  ProjectNode,
+  RemoteInputEvent,
+  ServerMessage,
+  SignalMessage,
+  ViewerInfo,
+} from 'tldraw-browser-canvas-protocol';
 
 // Browser node shape for tldraw
 export interface BrowserNodeShape {
@@ -27,26 +43,36 @@ export interface CreateNodeResponse {
 
 export interface ViewerTokenResponse {
   viewerToken: string;
+  // Whether a slot is held for this token; unreserved viewers are queued on join
+  reserved: boolean;
+  reservationExpiresAt: number | null;
+}
+
+export interface IceServersResponse {
+  iceServers: RTCIceServer[];
+  // When the TURN credentials lapse (ms since epoch); null if only STUN is configured
+  expiresAt: number | null;
 }
 
-// WebSocket signaling messages
-export type SignalMessage =
-  | { type: 'publish'; nodeId: string; ownerToken: string }
-  | { type: 'join'; nodeId: string; viewerToken: string }
-  | { type: 'offer'; nodeId: string; sdp: RTCSessionDescriptionInit }
-  | { type: 'answer'; nodeId: string; sdp: RTCSessionDescriptionInit }
-  | { type: 'ice'; nodeId: string; candidate: RTCIceCandidateInit }
-  | { type: 'revoke'; nodeId: string }
-  | { type: 'viewer-count'; nodeId: string; count: number }
-  | { type: 'heartbeat'; nodeId: string; timestamp: number; payload?: any }
-  | { type: 'capture-error'; nodeId: string; error: string }
-  | { type: 'ping' }
-  | { type: 'pong'; timestamp: number }
-  | { type: 'error'; message: string };
+export interface RefreshTokenResponse {
+  token: string;
+  expiresAt: number;
+}
 
 // WebRTC types
 export interface PeerConnection {
   pc: RTCPeerConnection;
   stream?: MediaStream;
   nodeId: string;
+  peerId: string;
+}
+
+// What a desktop helper session is showing (GET /sessions/:nodeId and its event stream)
+export interface PageState {
+  url: string;
+  title: string;
+  favicon: string | null;
+  loading: boolean;
+  canGoBack: boolean;
+  canGoForward: boolean;
 }